@@ -5,39 +5,1158 @@
 import * as localforageT from 'localforage';
 import * as lkf from 'lockable-forage';
 
+/**
+ * Events emitted by nonlocalForage instances, and the details they carry.
+ */
+export interface EventMap {
+	/**
+	 * An upload of this key has been requested.
+	 */
+	"upload-start": {
+		key: string;
+	};
+	/**
+	 * An upload of this key finished successfully.
+	 */
+	"upload-complete": {
+		key: string;
+	};
+	/**
+	 * An upload of this key failed (after any retries).
+	 */
+	"upload-error": {
+		key: string;
+		error: any;
+	};
+	/**
+	 * Progress of an upload of this key, in bytes of stored data.
+	 */
+	"upload-progress": {
+		key: string;
+		loaded: number;
+		total: number;
+	};
+	/**
+	 * Progress of a download of this key, in bytes of stored data. total is 0
+	 * if the size isn't known.
+	 */
+	"download-progress": {
+		key: string;
+		loaded: number;
+		total: number;
+	};
+	/**
+	 * The login token was refreshed. expiresAt is the time (as from
+	 * Date.now()) when the new token expires, if known.
+	 */
+	"auth-refresh": {
+		expiresAt: number | null;
+	};
+	/**
+	 * The user must log in (again), or grant permission, before the backend
+	 * can be used. error is the error that showed this, if any.
+	 */
+	"auth-required": {
+		error: any;
+	};
+	/**
+	 * A write to this key conflicted with a change made elsewhere, and
+	 * onConflict was called to resolve it.
+	 */
+	"conflict": {
+		key: string;
+	};
+	/**
+	 * The backend's storage quota is exhausted.
+	 */
+	"quota-warning": {
+		error: any;
+	};
+	/**
+	 * The amount of data in cacheForage's cache that has not yet been
+	 * flushed (as returned by cachedSize) changed.
+	 */
+	"cached-size": {
+		cachedSize: number;
+	};
+	/**
+	 * Progress of cacheForage's uploads of everything pending, in bytes,
+	 * since nothing was last pending. Sizes of uploads not yet started are
+	 * estimated.
+	 */
+	"flush-progress": {
+		loaded: number;
+		total: number;
+	};
+}
+/**
+ * An event, as passed to listeners.
+ */
+export interface NonlocalForageEvent<K extends keyof EventMap> {
+	type: K;
+	detail: EventMap[K];
+}
+/**
+ * A listener for an event.
+ */
+export type Listener<K extends keyof EventMap> = (ev: NonlocalForageEvent<K>) => unknown;
+/**
+ * A target for event listeners, in the style of EventTarget.
+ */
+export declare class Emitter {
+	/**
+	 * Call this listener whenever this event is emitted.
+	 */
+	addEventListener<K extends keyof EventMap>(type: K, listener: Listener<K>): void;
+	/**
+	 * Stop calling this listener.
+	 */
+	removeEventListener<K extends keyof EventMap>(type: K, listener: Listener<K>): void;
+	/**
+	 * Emit an event, calling every listener for it, then re-emit it from every
+	 * emitter this forwards to. Errors in listeners are logged, not thrown.
+	 */
+	emit<K extends keyof EventMap>(type: K, detail: EventMap[K]): void;
+	/**
+	 * Re-emit every event emitted by this emitter (e.g., for a login shared by
+	 * several instances) from another, until the returned function is called.
+	 * @param to  Emitter to re-emit the events from
+	 * @param types  Types of events to re-emit, or null for all of them
+	 */
+	forward(to: Emitter, types?: (keyof EventMap)[] | null): () => void;
+	private _listeners;
+	private _forwards;
+}
+/**
+ * A pending operation that has not yet been reflected in the nonlocal store.
+ */
+export interface JournalEntry {
+	/**
+	 * Operation to perform. For "set", the value is in the local store.
+	 */
+	op: "set" | "remove";
+	/**
+	 * Sequence number of this operation, to distinguish it from later
+	 * operations on the same key.
+	 */
+	seq: number;
+	/**
+	 * Approximate size of the value, for "set".
+	 */
+	size: number;
+}
+/**
+ * A value kept in the local store as a cached copy of the nonlocal store.
+ */
+export interface ReadCacheEntry {
+	/**
+	 * Approximate size of the value.
+	 */
+	size: number;
+	/**
+	 * Revision of the item in the nonlocal store that the cached copy is of.
+	 */
+	revision: string | null;
+	/**
+	 * When the entry was last used, as a count of uses, for LRU eviction.
+	 */
+	used: number;
+}
+/**
+ * A flush of a key that has been requested, but not yet started. Further
+ * writes to the key join it, rather than queueing another flush.
+ */
+export interface PendingFlush {
+	/**
+	 * Promise for the flush, resolved when it's done.
+	 */
+	promise: Promise<void>;
+	/**
+	 * Function to queue the flush on the nonlocal store (after which it will
+	 * start when everything queued before it is done).
+	 */
+	start: () => void;
+	/**
+	 * Timer for debouncing, if the flush is waiting for writes to stop.
+	 */
+	timer: number | null;
+}
+/**
+ * Options for flush.
+ */
+export interface FlushOptions {
+	/**
+	 * Only flush these keys. If not set, every pending key is flushed.
+	 */
+	keys?: string[];
+	/**
+	 * Signal to stop waiting for the flush. The uploads themselves continue.
+	 */
+	signal?: AbortSignal;
+}
+/**
+ * The state of synchronization with the nonlocal store, as returned by
+ * syncStatus.
+ */
+export interface SyncStatus {
+	/**
+	 * Number of keys with operations not yet reflected in the nonlocal store.
+	 */
+	pending: number;
+	/**
+	 * Approximate size of the values not yet uploaded.
+	 */
+	bytes: number;
+	/**
+	 * Number of pending keys whose last attempt to flush failed.
+	 */
+	failed: number;
+	/**
+	 * The error from the last failed flush, or null if no pending keys have
+	 * failed.
+	 */
+	lastError: any;
+	/**
+	 * Time (as from Date.now()) of the last successful flush, or null if
+	 * nothing has been flushed yet.
+	 */
+	lastSync: number | null;
+}
 export interface CacheForage {
 	localPromise: Promise<unknown>;
 	nonlocalPromise: Promise<unknown>;
+	journalPromise: Promise<unknown>;
 	local: lkf.LockableForage;
 	nonlocal: typeof localforageT;
-	error: any;
+	journal: Record<string, JournalEntry>;
+	journalSeq: number;
+	/**
+	 * Keys whose last attempt to flush to the nonlocal store failed, and the
+	 * errors they failed with. They remain in the journal until flushed.
+	 */
+	failed: Record<string, any>;
+	/**
+	 * Function to call when flushing a key to the nonlocal store fails.
+	 */
+	onError: ((error: any, key: string) => unknown) | null;
+	/**
+	 * Error from the last failed flush, cleared once no keys have failed.
+	 */
+	lastError: any;
+	/**
+	 * Time of the last successful flush, if any.
+	 */
+	lastSync: number | null;
 	cachedSize: number;
+	/**
+	 * Time, in milliseconds, to wait after a write to a key before uploading
+	 * it, in case it's written again.
+	 */
+	debounce: number;
+	/**
+	 * Flushes requested but not yet started, by key.
+	 */
+	pendingFlushes: Record<string, PendingFlush>;
+	/**
+	 * Maximum size of values to keep cached after they've been read or
+	 * written, or 0 if read caching is disabled.
+	 */
+	readCacheMax: number;
+	/**
+	 * Values cached locally (and not pending any operation), with their
+	 * revisions.
+	 */
+	readCache: Record<string, ReadCacheEntry>;
+	/**
+	 * Total size of the values in the read cache.
+	 */
+	readCacheSize: number;
+	/**
+	 * Number of uses of the read cache so far, for LRU.
+	 */
+	readCacheUses: number;
+	readCachePromise: Promise<unknown>;
+	/**
+	 * Revalidations of cached values in progress, by key.
+	 */
+	revalidating: Record<string, Promise<unknown>>;
+	/**
+	 * Listeners for this instance's events.
+	 */
+	events: Emitter;
+	/**
+	 * Stop passing on the nonlocal store's events to this instance.
+	 */
+	unforward: () => void;
+	/**
+	 * Progress of the uploads of each key flushed (or flushing) since nothing
+	 * was last pending, for flush-progress events.
+	 */
+	flushProgress: Record<string, {
+		loaded: number;
+		total: number;
+	}>;
+}
+export type IteratorCallback = (value: any, key: string, iterationNumber: number) => any;
+/**
+ * Options for client-side encryption.
+ */
+export interface EncryptionOptions {
+	/**
+	 * Passphrase from which to derive the key. Either this or key must be set.
+	 */
+	passphrase?: string;
+	/**
+	 * Key to use, instead of a passphrase. Either an HKDF key with the
+	 * deriveKey usage, from which the content and key name keys are derived,
+	 * or an AES-GCM key to encrypt content with directly. An AES-GCM key must
+	 * be extractable, as the key for key names is derived from its bytes; an
+	 * HKDF key needn't be.
+	 */
+	key?: CryptoKey;
+	/**
+	 * Salt for deriving a key from a passphrase. Defaults to the store's
+	 * directory, so each store has a different key.
+	 */
+	salt?: string;
+	/**
+	 * Number of PBKDF2 iterations for deriving a key from a passphrase.
+	 * Defaults to 600000.
+	 */
+	iterations?: number;
+	/**
+	 * Encrypt the keys as well, so that they don't appear in filenames.
+	 */
+	encryptKeys?: boolean;
+}
+export interface NonlocalforageOptions {
+	/**
+	 * Function to call to request transient activation, if needed. This *must*
+	 * be defined, and must be an asynchronous function. Transient activation
+	 * must be active when the promise returned by this function resolves.
+	 */
+	transientActivation: () => Promise<void>;
+
+	/**
+	 * Optional second function, used if transient activation is needed later,
+	 * for example if a login token is temporary and must be renewed. If this
+	 * is not defined, transientActivation will be used again.
+	 */
+	lateTransientActivation?: () => Promise<void>;
+
+	/**
+	 * Function to call to open a popup window. Set the target to "". This will
+	 * be called in lieu of transientActivation if (a) it's provided and (b) the
+	 * transient activation is needed to open a window.
+	 */
+	windowOpen?: (
+		url: string, features: string
+	) => Promise<void>;
+
+	/**
+	 * When popping up a window, we can't determine whether the action was
+	 * cancelled in all cases. When this function is called, it should display
+	 * some kind of indicator that the action can be cancelled. The promise
+	 * should only resolve if the action *is* cancelled. Otherwise it should
+	 * never resolve.
+	 */
+	cancellable?: () => Promise<void>;
+
+	/**
+	 * Hide anything shown by cancellable.
+	 */
+	hideCancellable?: () => void;
+
+	/**
+	 * Optional directory name to use as a root for all nonlocalForage data
+	 * on this service. If not specified, the directory name
+	 * "nonlocalForage" will be used.
+	 */
+	directory?: string;
+
+	/**
+	 * Don't use the "name" component of options when creating a directory.
+	 */
+	noName?: boolean;
+
+	/**
+	 * Don't use the "storeName" component of options when creating a
+	 * directory.
+	 */
+	noStore?: boolean;
+
+	/**
+	 * If set to a truthy value, will force a login prompt, rather than
+	 * logging in with saved credentials. For instance, when using Google
+	 * Drive, this will require the user to actually click their username,
+	 * rather than simply reusing the established account.
+	 */
+	forcePrompt?: boolean;
+
+	/**
+	 * Maximum number of requests to have in flight at once, for backends that
+	 * support concurrent requests (currently Google Drive). Requests
+	 * concerning the same key are always performed in order. Defaults to 1.
+	 */
+	concurrency?: number;
+
+	/**
+	 * Maximum number of keys to read or write at once in bulk operations
+	 * (getItems, setItems and removeItems), on backends that don't have a
+	 * batch request for them. Defaults to 4.
+	 */
+	bulkConcurrency?: number;
+
+	/**
+	 * Number of times to retry a request that failed transiently, i.e.,
+	 * because of a network failure, a server error, or rate limiting.
+	 * Defaults to 5. Set to 0 to never retry. Each request is retried by
+	 * itself, so an operation is never repeated as a whole.
+	 */
+	retries?: number;
+
+	/**
+	 * Base delay, in milliseconds, for exponential backoff between retries.
+	 * The actual delay is random, up to this doubled for each failed attempt.
+	 * If the backend says how long to wait, that is used instead. Defaults to
+	 * 1000.
+	 */
+	retryDelay?: number;
+
+	/**
+	 * Maximum delay, in milliseconds, between retries, not counting delays
+	 * requested by the backend. Defaults to 60000.
+	 */
+	retryMaxDelay?: number;
+
+	/**
+	 * Size, in bytes, of each request when uploading large values. Values
+	 * larger than this are uploaded in pieces, which can be resumed from the
+	 * last piece the backend received if the connection is interrupted,
+	 * including by a later write of the same value if the first one gave up
+	 * (currently Dropbox and Google Drive, and only without encryption, which
+	 * makes every write's content different). Defaults to 8MiB.
+	 */
+	chunkSize?: number;
+
+	/**
+	 * Compress values with this format before storing them. Values stored
+	 * without compression can still be read, whatever this is set to.
+	 */
+	compression?: CompressionFormat;
+
+	/**
+	 * Values whose serialized size is less than this many bytes are stored
+	 * uncompressed, as compression rarely helps them. Defaults to 1024.
+	 */
+	compressionThreshold?: number;
+
+	/**
+	 * Maximum length of a filename. Keys whose filenames (after escaping or
+	 * encryption) would be longer than this are stored under a hash instead,
+	 * with the original key kept in a manifest file. Defaults to 255.
+	 */
+	maxFilenameLength?: number;
+
+	/**
+	 * If set, keys are split at this separator, and stored in nested
+	 * directories: e.g., with "/", "project/123/frame" is stored as the file
+	 * "frame" in the directory "123" in the directory "project". This keeps
+	 * directory listings small, and makes listing keys with a given prefix
+	 * (with keysWithPrefix) faster. Existing keys containing the separator
+	 * are moved into their directories when the store is first opened with
+	 * it. Once set, opening the store with a different separator (or none)
+	 * fails with a LayoutError.
+	 */
+	keySeparator?: string;
+
+	/**
+	 * Encrypt values (and optionally keys) on the client with AES-GCM, so the
+	 * backend only ever sees ciphertext. Give either a passphrase or a
+	 * CryptoKey.
+	 */
+	encryption?: EncryptionOptions;
+
+	/**
+	 * Function to call when a write conflicts with a change made elsewhere,
+	 * i.e., the item was changed remotely since it was last read or written
+	 * by this instance. It is given the key, the value being written, and the
+	 * value presently stored remotely (null if the item was removed), and
+	 * should return (or resolve to) the value to write. If this is not set,
+	 * writes are unconditional, and the last write wins.
+	 */
+	onConflict?: (key: string, local: any, remote: any) => any;
+}
+/**
+ * Options for a single operation.
+ */
+export interface OperationOptions {
+	/**
+	 * Signal to abort the operation. If it's aborted before the operation
+	 * starts, the operation is dropped from the queue; if it's aborted while
+	 * the operation is running, any request in flight is aborted where the
+	 * backend allows. Either way, the operation rejects with an AbortError.
+	 */
+	signal?: AbortSignal;
+}
+/**
+ * Options for listing keys.
+ */
+export interface KeysOptions extends OperationOptions {
+	/**
+	 * Only list keys starting with this prefix.
+	 */
+	prefix?: string;
+}
+/**
+ * Client-side encryption of values and keys with AES-GCM. Values are
+ * encrypted with a random IV. Keys are encrypted deterministically, with an IV
+ * derived from the key by HMAC, so that the same key always has the same
+ * filename.
+ */
+export declare class Encryption {
+	/**
+	 * Key for encrypting content.
+	 */
+	key: CryptoKey;
+	/**
+	 * HMAC key for deriving IVs for key names.
+	 */
+	nameKey: CryptoKey;
+	/**
+	 * Whether to encrypt key names.
+	 */
+	encryptKeys: boolean;
+	constructor(
+	/**
+	 * Key for encrypting content.
+	 */
+	key: CryptoKey, 
+	/**
+	 * HMAC key for deriving IVs for key names.
+	 */
+	nameKey: CryptoKey, 
+	/**
+	 * Whether to encrypt key names.
+	 */
+	encryptKeys: boolean);
+	/**
+	 * Create an encryption instance from these options.
+	 * @param opts  Encryption options
+	 * @param defaultSalt  Salt to use if none is given
+	 */
+	static create(opts: EncryptionOptions, defaultSalt: string): Promise<Encryption>;
+	/**
+	 * Is this data encrypted?
+	 */
+	static isEncrypted(data: Uint8Array): boolean;
+	/**
+	 * Encrypt this data.
+	 */
+	encrypt(data: Uint8Array): Promise<Uint8Array>;
+	/**
+	 * Decrypt this data, which must have been encrypted by encrypt.
+	 */
+	decrypt(data: Uint8Array): Promise<Uint8Array>;
+	/**
+	 * Encrypt a key name, to a string that is safe as a filename.
+	 */
+	encryptName(name: string): Promise<string>;
+	/**
+	 * Decrypt a key name encrypted by encryptName.
+	 */
+	decryptName(encrypted: string): Promise<string>;
+	/**
+	 * Hash a key name with HMAC, for a filename that can't be reversed or
+	 * guessed without the key.
+	 */
+	hashName(name: string): Promise<string>;
+	/**
+	 * Decrypt, raising an EncryptionKeyError if the data fails to
+	 * authenticate.
+	 */
+	private _decrypt;
+}
+/**
+ * Options for serialization.
+ */
+export interface SerializeOptions {
+	/**
+	 * Compression format to use, if any.
+	 */
+	compression?: CompressionFormat;
+	/**
+	 * Serialized values smaller than this many bytes are stored uncompressed.
+	 * Defaults to 1024.
+	 */
+	compressionThreshold?: number;
+	/**
+	 * Key to record with the data, so that it can be found from the data
+	 * alone.
+	 */
+	key?: string;
+}
+/**
+ * Access to the files of a store by path (as returned by keyToPath), which
+ * the codec uses for the manifest. Provided by each driver. These are called
+ * from within the driver's own operations, so must not queue.
+ */
+export interface RawStore {
+	/**
+	 * Read a file, or return null if it doesn't exist.
+	 */
+	read(path: string[]): Promise<Uint8Array | null>;
+	/**
+	 * Write a file.
+	 */
+	write(path: string[], data: Uint8Array): Promise<void>;
+	/**
+	 * List the names of the files (not directories) directly in the store's
+	 * directory.
+	 */
+	list(): Promise<string[]>;
+	/**
+	 * Remove a file, if it exists.
+	 */
+	remove(path: string[]): Promise<void>;
+}
+/**
+ * Conversion between values and the data stored on the backend, and between
+ * keys and filenames, as configured for a given store.
+ *
+ * If a separator is set, each segment of a key but the last names a
+ * directory, so keys are stored in a tree of directories.
+ *
+ * Keys (or segments) whose filenames would be too long are stored under a
+ * hash instead. The original keys are kept in a manifest file, and also
+ * recorded in the files themselves, so that they can be recovered if the
+ * manifest is missing an entry (e.g., because two instances updated it at
+ * once).
+ */
+export declare class Codec {
+	/**
+	 * Encryption to apply, if any.
+	 */
+	encryption: Encryption | null;
+	/**
+	 * Options for serialization, such as compression.
+	 */
+	serializeOpts: SerializeOptions;
+	/**
+	 * Maximum length of a filename. Longer ones are hashed.
+	 */
+	maxFilenameLength: number;
+	/**
+	 * Separator of the segments of keys, which are stored in nested
+	 * directories, or null to store every key directly in the store's
+	 * directory.
+	 */
+	separator: string | null;
+	/**
+	 * Access to the store's files, for the manifest.
+	 */
+	store: RawStore;
+	constructor(
+	/**
+	 * Encryption to apply, if any.
+	 */
+	encryption: Encryption | null, 
+	/**
+	 * Options for serialization, such as compression.
+	 */
+	serializeOpts: SerializeOptions, 
+	/**
+	 * Maximum length of a filename. Longer ones are hashed.
+	 */
+	maxFilenameLength: number, 
+	/**
+	 * Separator of the segments of keys, which are stored in nested
+	 * directories, or null to store every key directly in the store's
+	 * directory.
+	 */
+	separator: string | null, 
+	/**
+	 * Access to the store's files, for the manifest.
+	 */
+	store: RawStore);
+	/**
+	 * Create a codec for a store with these (localForage) options.
+	 * @param options  localForage options
+	 * @param store  Access to the store's files
+	 */
+	static create(options: any, store: RawStore): Promise<Codec>;
+	/**
+	 * Convert a value to the data to store.
+	 * @param value  Value to store
+	 * @param key  Key under which it's being stored, if it's an item
+	 */
+	encode(value: any, key?: string): Promise<Uint8Array>;
+	/**
+	 * Convert stored data back to a value. Data stored without encryption can
+	 * still be read, even if encryption is enabled.
+	 */
+	decode(data: Uint8Array): Promise<any>;
+	/**
+	 * Decrypt stored data, if it's encrypted.
+	 */
+	private _decrypt;
+	/**
+	 * Get the path (the names of any directories, then the filename) under
+	 * which to store this key.
+	 * @param key  Key to look up
+	 * @param create  Set if the file is about to be written, so that any
+	 *                hashed names are added to the manifest.
+	 */
+	keyToPath(key: string, create?: boolean): Promise<string[]>;
+	/**
+	 * Get the path of the directory containing every key with this prefix.
+	 */
+	prefixToDirs(prefix: string): Promise<string[]>;
+	/**
+	 * Get the prefixes of the names, in the directory given by prefixToDirs,
+	 * of every file or directory that may hold a key with this prefix, or
+	 * null if they can't be known (e.g., because keys are encrypted). Only a
+	 * hint: other files may also have these prefixes.
+	 */
+	prefixToNames(prefix: string): string[] | null;
+	/**
+	 * Split a key into the segments of its path.
+	 */
+	private _segments;
+	/**
+	 * Get the filename for this key (or segment of a key), without updating
+	 * the manifest.
+	 */
+	private _name;
+	private _isHashed;
+	/**
+	 * Is this the name of a directory of keys?
+	 */
+	isDirName(name: string): boolean;
+	/**
+	 * Is this the path of an item (i.e., not of the codec's own data)?
+	 */
+	isKeyPath(path: string[]): boolean;
+	/**
+	 * Get the key stored at this path, or null if the file isn't an item.
+	 */
+	pathToKey(path: string[]): Promise<string | null>;
+	/**
+	 * Get the key (or segment of a key) for this filename, or null if it's
+	 * hashed and not in the manifest.
+	 */
+	private _nameToSegment;
+	/**
+	 * Get the key recorded in the file at this path, adding any hashed names
+	 * in its path to the manifest.
+	 */
+	private _keyFromFile;
+	/**
+	 * Get the manifest, loading it if it isn't yet loaded.
+	 */
+	private _loadManifest;
+	/**
+	 * Read the manifest from the store.
+	 */
+	private _readManifest;
+	/**
+	 * Add this hashed filename to the manifest, if it's not already there.
+	 */
+	private _addToManifest;
+	/**
+	 * Remove this hashed filename from the manifest, if it's there.
+	 */
+	private _removeFromManifest;
+	/**
+	 * Write the manifest back to the store, merging in anything added
+	 * elsewhere first.
+	 * @param manifest  The manifest as updated
+	 * @param removed  Name just removed from the manifest, not to merge back
+	 */
+	private _writeManifest;
+	/**
+	 * Forget this key, because it's been removed: if its filename is hashed,
+	 * remove it from the manifest. Any other keys in the same directories are
+	 * unaffected.
+	 */
+	removed(key: string): Promise<void>;
+	/**
+	 * Make sure that the encryption key, if any, is the one the store is
+	 * encrypted with, by decrypting the check value stored with it. If there
+	 * is none yet, store one. Without this, a wrong key would go unnoticed
+	 * until something written with the right one is read, leaving a mix of
+	 * keys in the store. Each driver calls this when it's set up.
+	 */
+	checkKey(): Promise<void>;
+	/**
+	 * Make sure that the key separator, if any, is the one the store's keys
+	 * were written with, as recorded in the store. If a different one (or
+	 * none) is recorded, keys would be misread, so this throws a LayoutError.
+	 * If a key separator is set, and none was when the store was last opened,
+	 * move any keys containing it from the store's directory (where they were
+	 * stored without the separator) to their directories, so that they're
+	 * found. If a key is in both places, the one in its directory is kept.
+	 * The separator is then recorded, so this is only done once. Each driver
+	 * calls this when it's set up, after checkKey.
+	 */
+	migrate(): Promise<void>;
+	/**
+	 * Record the key separator in the store, if it isn't already, so that the
+	 * store isn't then opened with a different one.
+	 */
+	private _recordLayout;
+	/**
+	 * Forget the manifest and the recorded layout, because the store has been
+	 * cleared.
+	 */
+	clear(): void;
+	/**
+	 * Promise for recording the key separator in the store, or null if it
+	 * isn't known to be recorded.
+	 */
+	layout: Promise<unknown> | null;
+	/**
+	 * Map of hashed filenames to keys, loaded when first needed.
+	 */
+	manifest: Promise<Record<string, string>> | null;
+	/**
+	 * Promise for the last update to the manifest, so that updates are done
+	 * one at a time.
+	 */
+	manifestPromise: Promise<unknown>;
 }
 export interface DropboxGlobalData {
 	promise: Promise<unknown>;
 	dbx: any;
+	/**
+	 * Listeners for events concerning the whole account (login and quota),
+	 * which are forwarded to every instance.
+	 */
+	events: Emitter;
 }
 export interface DropboxLocalData {
 	dbg: DropboxGlobalData;
 	dbx: any;
+	nlfOpts: NonlocalforageOptions;
+	codec: Codec;
 	dir: string;
+	/**
+	 * Revision of each file as last read or written by this instance, for
+	 * conflict detection and knownRevision.
+	 */
+	revs: Record<string, string>;
+	/**
+	 * Upload sessions that didn't finish, by path, with how much of the
+	 * content Dropbox received and the hash of the content, so that uploading
+	 * the same content again resumes them.
+	 */
+	uploads: Record<string, {
+		sessionId: string;
+		offset: number;
+		hash: string;
+	}>;
+	/**
+	 * Listeners for this instance's events.
+	 */
+	events: Emitter;
+	/**
+	 * Stop passing on the account's events to this instance.
+	 */
+	unforward: () => void;
 }
 export interface FSDHData {
 	promise: Promise<unknown>;
+	nlfOpts: NonlocalforageOptions;
+	codec: Codec;
 	root: FileSystemDirectoryHandle;
 	path: string;
 	dir: FileSystemDirectoryHandle & {
 		keys: () => AsyncIterator<string>;
 	};
+	/**
+	 * Modification time of each file as last read or written by this
+	 * instance, for conflict detection and knownRevision.
+	 */
+	mtimes: Record<string, number>;
+	/**
+	 * Listeners for this instance's events.
+	 */
+	events: Emitter;
+}
+/**
+ * A logged-in Google account. Shared by all instances using the same client
+ * ID and account.
+ */
+export interface GoogleDriveSession {
+	/**
+	 * API key, if one was provided.
+	 */
+	apiKey: string | null;
+	/**
+	 * Current access token. Updated as it's refreshed.
+	 */
+	accessToken: string;
+	/**
+	 * Email address of the account.
+	 */
+	email: string;
+	/**
+	 * Listeners for events concerning the whole account (login and quota);
+	 * which are forwarded to every instance.
+	 */
+	events: Emitter;
 }
 export interface GoogleDriveData {
+	session: GoogleDriveSession;
+	queue: RequestQueue;
+	nlfOpts: NonlocalforageOptions;
+	codec: Codec;
 	path: string;
 	dirId: string;
+	/**
+	 * Version of each file as last read or written by this instance, for
+	 * conflict detection and knownRevision.
+	 */
+	versions: Record<string, string>;
+	/**
+	 * Map of keys to file IDs, filled by listings of the store's directory
+	 * and kept current by this instance's own writes.
+	 */
+	fileIds: Record<string, string>;
+	/**
+	 * Listing of the whole store, which completes fileIds, so that a key
+	 * missing from it doesn't exist. null until first needed.
+	 */
+	listed: Promise<void> | null;
+	/**
+	 * Map of paths (joined by "/") of directories of keys to their IDs, or
+	 * null if they don't exist. Only directories that exist are remembered.
+	 */
+	dirIds: Record<string, Promise<string | null>>;
+	/**
+	 * Resumable uploads that didn't finish, by file ID (or parent ID and name,
+	 * for new files), with the hash of their content, so that uploading the
+	 * same content again resumes them.
+	 */
+	uploads: Record<string, {
+		uri: string;
+		hash: string;
+	}>;
+	/**
+	 * Listeners for this instance's events.
+	 */
+	events: Emitter;
+	/**
+	 * Stop passing on the account's events to this instance.
+	 */
+	unforward: () => void;
+}
+/**
+ * Information about a stored item, from the backend's metadata.
+ */
+export interface ItemInfo {
+	/**
+	 * The item's key.
+	 */
+	key: string;
+	/**
+	 * Size in bytes of the stored file (i.e., after serialization, compression
+	 * and encryption).
+	 */
+	size: number;
+	/**
+	 * Time the item was last modified, in milliseconds since the epoch, or
+	 * null if the backend doesn't say.
+	 */
+	modified: number | null;
+	/**
+	 * Revision of the file: the Dropbox rev, the WebDAV ETag, the Google Drive
+	 * version, or the modification time of a FileSystemDirectoryHandle file.
+	 * Changes whenever the item is written.
+	 */
+	revision: string | null;
+	/**
+	 * Hash of the stored file, if the backend provides one: the Dropbox
+	 * content_hash, or the Google Drive MD5 checksum.
+	 */
+	hash: string | null;
+}
+/**
+ * An item to write in a bulk operation.
+ */
+export interface BulkItem {
+	key: string;
+	value: any;
+}
+/**
+ * The result of a bulk operation for one key. Each key succeeds or fails on
+ * its own.
+ */
+export interface BulkResult {
+	/**
+	 * The key.
+	 */
+	key: string;
+	/**
+	 * For getItems, the item's value, or null if it doesn't exist.
+	 */
+	value?: any;
+	/**
+	 * The error, if the operation failed for this key.
+	 */
+	error?: any;
+}
+/**
+ * A queue of asynchronous requests, running up to a given number at once.
+ * Requests for the same key are run one at a time, in the order they were
+ * queued. Requests with no key (i.e., requests for the whole store) are run
+ * alone, after everything queued before them.
+ */
+export declare class RequestQueue {
+	/**
+	 * Maximum number of requests to run at once.
+	 */
+	concurrency: number;
+	constructor(
+	/**
+	 * Maximum number of requests to run at once.
+	 */
+	concurrency?: number);
+	/**
+	 * Queue this request.
+	 * @param fn  Function to perform the request
+	 * @param key  Key that the request concerns, or null for the whole store
+	 */
+	run<T>(fn: () => Promise<T>, key?: string | null): Promise<T>;
+	/**
+	 * Start whatever requests can be started.
+	 */
+	private _pump;
+	/**
+	 * Start a single request.
+	 */
+	private _start;
+	private _queue;
+	private _running;
+	private _runningAll;
+	private _runningKeys;
 }
 export interface WebDAVData {
 	promise: Promise<unknown>;
 	dav: any;
+	nlfOpts: NonlocalforageOptions;
+	codec: Codec;
 	dir: string;
+	/**
+	 * ETag of each file as last read or written by this instance, for conflict
+	 * detection and knownRevision.
+	 */
+	etags: Record<string, string>;
+	/**
+	 * Set if the server has been seen not to send ETags, in which case
+	 * conflicts can't be detected, so writes are unconditional.
+	 */
+	noETags: boolean;
+	/**
+	 * Directories of keys (with keySeparator) known to exist.
+	 */
+	dirs: Record<string, boolean>;
+	/**
+	 * Listeners for this instance's events.
+	 */
+	events: Emitter;
+}
+/**
+ * Base class of all errors raised by nonlocalForage backends.
+ */
+declare class NonlocalForageError$1 extends Error {
+	/**
+	 * The original error from the backend, if any.
+	 */
+	cause?: any;
+	/**
+	 * HTTP status of the failed request, if applicable.
+	 */
+	status?: number | undefined;
+	constructor(message: string, 
+	/**
+	 * The original error from the backend, if any.
+	 */
+	cause?: any, 
+	/**
+	 * HTTP status of the failed request, if applicable.
+	 */
+	status?: number | undefined);
+}
+/**
+ * The requested file or directory does not exist.
+ */
+declare class NotFoundError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * Authentication failed or expired, or permission was denied.
+ */
+declare class AuthError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * The backend's storage quota is exhausted.
+ */
+declare class QuotaError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * The backend is limiting the rate of requests.
+ */
+declare class RateLimitError$1 extends NonlocalForageError$1 {
+	/**
+	 * Time in milliseconds after which to retry, if the backend said.
+	 */
+	retryAfter?: number | undefined;
+	constructor(message: string, cause?: any, status?: number, 
+	/**
+	 * Time in milliseconds after which to retry, if the backend said.
+	 */
+	retryAfter?: number | undefined);
+}
+/**
+ * The backend could not be reached.
+ */
+declare class NetworkError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * The backend failed internally (i.e., an HTTP 5xx status).
+ */
+declare class ServerError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * A conditional write failed because the file was changed elsewhere.
+ */
+declare class ConflictError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * Stored data is damaged or truncated.
+ */
+declare class CorruptDataError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * Encrypted data could not be decrypted, because the key or passphrase is
+ * wrong, or the data is corrupt.
+ */
+declare class EncryptionKeyError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
+}
+/**
+ * The store's keys were written with a different key separator (or none)
+ * than the one it was opened with.
+ */
+declare class LayoutError$1 extends NonlocalForageError$1 {
+	constructor(message: string, cause?: any, status?: number);
 }
 export declare const cacheForage: {
 	_driver: string;
@@ -47,33 +1166,34 @@ export declare const cacheForage: {
 	}, options: any) => Promise<void>;
 	iterate: (this: LocalForage & {
 		_cf: CacheForage;
-	}, iteratorCallback: (key: string) => any, successCallback: () => unknown) => Promise<void>;
+	}, options: KeysOptions | IteratorCallback, iteratorCallback?: IteratorCallback | (() => unknown), successCallback?: () => unknown) => Promise<any>;
 	getItem: (this: LocalForage & {
 		_cf: CacheForage;
-	}, key: string, callback?: (value: any) => unknown) => Promise<unknown>;
+	}, key: string, options?: OperationOptions | ((value: any) => unknown), callback?: (value: any) => unknown) => Promise<unknown>;
 	setItem: (this: LocalForage & {
 		_cf: CacheForage;
-	}, key: string, value: any, callback?: () => unknown) => Promise<void>;
+	}, key: string, value: any, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	removeItem: (this: LocalForage & {
 		_cf: CacheForage;
-	}, key: string, callback?: () => unknown) => Promise<void>;
+	}, key: string, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	clear: (this: LocalForage & {
 		_cf: CacheForage;
-	}, callback?: () => unknown) => Promise<void>;
+	}, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	length: (this: LocalForage & {
 		_cf: CacheForage;
-	}, callback?: (len: number) => unknown) => Promise<number>;
+	}, options?: OperationOptions | ((len: number) => unknown), callback?: (len: number) => unknown) => Promise<number>;
 	key: (this: LocalForage & {
 		_cf: CacheForage;
-	}, index: number, callback?: (key: string) => unknown) => Promise<string>;
+	}, index: number, options?: OperationOptions | ((key: string) => unknown), callback?: (key: string) => unknown) => Promise<string>;
 	keys: (this: LocalForage & {
 		_cf: CacheForage;
-	}, callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	}, options?: KeysOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
 	dropInstance: (this: LocalForage & {
 		_cf: CacheForage;
 	}, options?: {
 		name?: string;
 		storeName?: string;
+		signal?: AbortSignal;
 	}, callback?: () => unknown) => Promise<void>;
 	cachedSize: (this: LocalForage & {
 		_cf: CacheForage;
@@ -81,6 +1201,39 @@ export declare const cacheForage: {
 	nonlocalPromise: (this: LocalForage & {
 		_cf: CacheForage;
 	}) => Promise<unknown>;
+	failedKeys: (this: LocalForage & {
+		_cf: CacheForage;
+	}) => string[];
+	retryFailed: (this: LocalForage & {
+		_cf: CacheForage;
+	}) => Promise<void>;
+	keysWithPrefix: (this: LocalForage & {
+		_cf: CacheForage;
+	}, prefix: string, options?: OperationOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	flush: (this: LocalForage & {
+		_cf: CacheForage;
+	}, options?: FlushOptions) => Promise<void>;
+	pendingKeys: (this: LocalForage & {
+		_cf: CacheForage;
+	}) => string[];
+	syncStatus: (this: LocalForage & {
+		_cf: CacheForage;
+	}) => SyncStatus;
+	addEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_cf: CacheForage;
+	}, type: K, listener: Listener<K>) => void;
+	removeEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_cf: CacheForage;
+	}, type: K, listener: Listener<K>) => void;
+	getItems: (this: LocalForage & {
+		_cf: CacheForage;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	setItems: (this: LocalForage & {
+		_cf: CacheForage;
+	}, items: BulkItem[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	removeItems: (this: LocalForage & {
+		_cf: CacheForage;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
 };
 export declare const dropboxLocalForage: {
 	_driver: string;
@@ -90,40 +1243,68 @@ export declare const dropboxLocalForage: {
 	}, options: any) => Promise<void>;
 	iterate: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, iteratorCallback: (key: string) => any, successCallback: () => unknown) => Promise<void>;
+	}, options: KeysOptions | ((key: string) => any), iteratorCallback?: ((key: string) => any) | (() => unknown), successCallback?: () => unknown) => Promise<any>;
 	getItem: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, key: string, callback?: (value: any) => unknown) => Promise<any>;
+	}, key: string, options?: OperationOptions | ((value: any) => unknown), callback?: (value: any) => unknown) => Promise<any>;
 	setItem: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, key: string, value: any, callback?: () => unknown) => Promise<void>;
+	}, key: string, value: any, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	removeItem: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, key: string, callback?: () => unknown) => Promise<void>;
+	}, key: string, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	clear: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, callback?: () => unknown) => Promise<void>;
+	}, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	length: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, callback?: (len: number) => unknown) => Promise<number>;
+	}, options?: OperationOptions | ((len: number) => unknown), callback?: (len: number) => unknown) => Promise<number>;
 	key: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, index: number, callback?: (key: string) => unknown) => Promise<string>;
+	}, index: number, options?: OperationOptions | ((key: string) => unknown), callback?: (key: string) => unknown) => Promise<string>;
 	keys: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}, callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	}, options?: KeysOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
 	dropInstance: (this: LocalForage & {
 		_dbx: DropboxLocalData;
 	}, options?: {
 		name?: string;
 		storeName?: string;
+		signal?: AbortSignal;
 	}, callback?: () => unknown) => Promise<void>;
 	storageEstimate: (this: LocalForage & {
 		_dbx: DropboxLocalData;
-	}) => Promise<{
+	}, options?: OperationOptions) => Promise<{
 		quota: any;
 		usage: number;
 	}>;
+	keysWithPrefix: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, prefix: string, options?: OperationOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	getItemInfo: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, key: string, options?: OperationOptions | ((info: ItemInfo | null) => unknown), callback?: (info: ItemInfo | null) => unknown) => Promise<ItemInfo | null>;
+	iterateInfo: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, iteratorCallback: (info: ItemInfo) => any, options?: OperationOptions | (() => unknown), successCallback?: () => unknown) => Promise<any>;
+	addEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, type: K, listener: Listener<K>) => void;
+	removeEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, type: K, listener: Listener<K>) => void;
+	getItems: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	setItems: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, items: BulkItem[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	removeItems: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	knownRevision: (this: LocalForage & {
+		_dbx: DropboxLocalData;
+	}, key: string) => string | null;
 };
 export declare const fsdhLocalForage: {
 	_driver: string;
@@ -133,34 +1314,62 @@ export declare const fsdhLocalForage: {
 	}, options: any) => Promise<void>;
 	iterate: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, iteratorCallback: (key: string) => any, successCallback: () => unknown) => Promise<void>;
+	}, options: KeysOptions | ((key: string) => any), iteratorCallback?: ((key: string) => any) | (() => unknown), successCallback?: () => unknown) => Promise<any>;
 	getItem: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, key: string, callback?: (value: any) => unknown) => Promise<any>;
+	}, key: string, options?: OperationOptions | ((value: any) => unknown), callback?: (value: any) => unknown) => Promise<any>;
 	setItem: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, key: string, value: any, callback?: () => unknown) => Promise<void>;
+	}, key: string, value: any, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	removeItem: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, key: string, callback?: () => unknown) => Promise<void>;
+	}, key: string, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	clear: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, callback?: () => unknown) => Promise<void>;
+	}, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	length: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, callback?: (len: number) => unknown) => Promise<number>;
+	}, options?: OperationOptions | ((len: number) => unknown), callback?: (len: number) => unknown) => Promise<number>;
 	key: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, index: number, callback?: (key: string) => unknown) => Promise<string>;
+	}, index: number, options?: OperationOptions | ((key: string) => unknown), callback?: (key: string) => unknown) => Promise<string>;
 	keys: (this: LocalForage & {
 		_fsdh: FSDHData;
-	}, callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	}, options?: KeysOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
 	dropInstance: (this: LocalForage & {
 		_fsdh: FSDHData;
 	}, options?: {
 		name?: string;
 		storeName?: string;
+		signal?: AbortSignal;
 	}, callback?: () => unknown) => Promise<void>;
+	keysWithPrefix: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, prefix: string, options?: OperationOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	getItemInfo: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, key: string, options?: OperationOptions | ((info: ItemInfo | null) => unknown), callback?: (info: ItemInfo | null) => unknown) => Promise<ItemInfo | null>;
+	iterateInfo: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, iteratorCallback: (info: ItemInfo) => any, options?: OperationOptions | (() => unknown), successCallback?: () => unknown) => Promise<any>;
+	addEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_fsdh: FSDHData;
+	}, type: K, listener: Listener<K>) => void;
+	removeEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_fsdh: FSDHData;
+	}, type: K, listener: Listener<K>) => void;
+	getItems: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	setItems: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, items: BulkItem[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	removeItems: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	knownRevision: (this: LocalForage & {
+		_fsdh: FSDHData;
+	}, key: string) => string | null;
 };
 export declare const googleDriveLocalForage: {
 	_driver: string;
@@ -170,40 +1379,68 @@ export declare const googleDriveLocalForage: {
 	}, options: any) => Promise<void>;
 	iterate: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, iteratorCallback: (key: string) => any, successCallback?: () => unknown) => Promise<void>;
+	}, options: KeysOptions | ((key: string) => any), iteratorCallback?: ((key: string) => any) | (() => unknown), successCallback?: () => unknown) => Promise<any>;
 	getItem: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, key: string, callback?: (value: any) => unknown) => Promise<any>;
+	}, key: string, options?: OperationOptions | ((value: any) => unknown), callback?: (value: any) => unknown) => Promise<any>;
 	setItem: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, key: string, value: any, callback?: () => unknown) => Promise<void>;
+	}, key: string, value: any, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	removeItem: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, key: string, callback?: () => unknown) => Promise<void>;
+	}, key: string, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	clear: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, callback?: () => unknown) => Promise<void>;
+	}, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	length: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, callback?: (len: number) => unknown) => Promise<number>;
+	}, options?: OperationOptions | ((len: number) => unknown), callback?: (len: number) => unknown) => Promise<number>;
 	key: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, index: number, callback?: (key: string) => unknown) => Promise<string>;
+	}, index: number, options?: OperationOptions | ((key: string) => unknown), callback?: (key: string) => unknown) => Promise<string>;
 	keys: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}, callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	}, options?: KeysOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
 	dropInstance: (this: LocalForage & {
 		_gd: GoogleDriveData;
 	}, options?: {
 		name?: string;
 		storeName?: string;
+		signal?: AbortSignal;
 	}, callback?: () => unknown) => Promise<void>;
 	storageEstimate: (this: LocalForage & {
 		_gd: GoogleDriveData;
-	}) => Promise<{
+	}, options?: OperationOptions) => Promise<{
 		quota: number;
 		usage: number;
 	}>;
+	keysWithPrefix: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, prefix: string, options?: OperationOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	getItemInfo: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, key: string, options?: OperationOptions | ((info: ItemInfo | null) => unknown), callback?: (info: ItemInfo | null) => unknown) => Promise<ItemInfo | null>;
+	iterateInfo: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, iteratorCallback: (info: ItemInfo) => any, options?: OperationOptions | (() => unknown), successCallback?: () => unknown) => Promise<any>;
+	addEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, type: K, listener: Listener<K>) => void;
+	removeEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, type: K, listener: Listener<K>) => void;
+	getItems: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	setItems: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, items: BulkItem[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	removeItems: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	knownRevision: (this: LocalForage & {
+		_gd: GoogleDriveData;
+	}, key: string) => string | null;
 };
 export declare const webDAVLocalForage: {
 	_driver: string;
@@ -213,42 +1450,92 @@ export declare const webDAVLocalForage: {
 	}, options: any) => Promise<void>;
 	iterate: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, iteratorCallback: (key: string) => any, successCallback: () => unknown) => Promise<void>;
+	}, options: KeysOptions | ((key: string) => any), iteratorCallback?: ((key: string) => any) | (() => unknown), successCallback?: () => unknown) => Promise<any>;
 	getItem: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, key: string, callback?: (value: any) => unknown) => Promise<any>;
+	}, key: string, options?: OperationOptions | ((value: any) => unknown), callback?: (value: any) => unknown) => Promise<any>;
 	setItem: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, key: string, value: any, callback?: () => unknown) => Promise<void>;
+	}, key: string, value: any, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	removeItem: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, key: string, callback?: () => unknown) => Promise<void>;
+	}, key: string, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	clear: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, callback?: () => unknown) => Promise<void>;
+	}, options?: OperationOptions | (() => unknown), callback?: () => unknown) => Promise<void>;
 	length: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, callback?: (len: number) => unknown) => Promise<any>;
+	}, options?: OperationOptions | ((len: number) => unknown), callback?: (len: number) => unknown) => Promise<any>;
 	key: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, index: number, callback?: (key: string) => unknown) => Promise<string>;
+	}, index: number, options?: OperationOptions | ((key: string) => unknown), callback?: (key: string) => unknown) => Promise<string>;
 	keys: (this: LocalForage & {
 		_dav: WebDAVData;
-	}, callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	}, options?: KeysOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
 	dropInstance: (this: LocalForage & {
 		_dav: WebDAVData;
 	}, options?: {
 		name?: string;
 		storeName?: string;
+		signal?: AbortSignal;
 	}, callback?: () => unknown) => Promise<void>;
 	storageEstimate: (this: LocalForage & {
 		_dav: WebDAVData;
-	}) => Promise<{
+	}, options?: OperationOptions) => Promise<{
 		quota: number;
 		usage: number;
 	}>;
+	keysWithPrefix: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, prefix: string, options?: OperationOptions | ((keys: string[]) => unknown), callback?: (keys: string[]) => unknown) => Promise<string[]>;
+	getItemInfo: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, key: string, options?: OperationOptions | ((info: ItemInfo | null) => unknown), callback?: (info: ItemInfo | null) => unknown) => Promise<ItemInfo | null>;
+	iterateInfo: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, iteratorCallback: (info: ItemInfo) => any, options?: OperationOptions | (() => unknown), successCallback?: () => unknown) => Promise<any>;
+	addEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_dav: WebDAVData;
+	}, type: K, listener: Listener<K>) => void;
+	removeEventListener: <K extends keyof EventMap>(this: LocalForage & {
+		_dav: WebDAVData;
+	}, type: K, listener: Listener<K>) => void;
+	getItems: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	setItems: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, items: BulkItem[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	removeItems: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, keys: string[], options?: OperationOptions | ((results: BulkResult[]) => unknown), callback?: (results: BulkResult[]) => unknown) => Promise<BulkResult[]>;
+	knownRevision: (this: LocalForage & {
+		_dav: WebDAVData;
+	}, key: string) => string | null;
 };
 export type LockableForage = lkf.LockableForage;
 export declare const LockableForage: typeof lkf.LockableForage;
+export type NonlocalForageError = NonlocalForageError$1;
+export declare const NonlocalForageError: typeof NonlocalForageError$1;
+export type NotFoundError = NotFoundError$1;
+export declare const NotFoundError: typeof NotFoundError$1;
+export type AuthError = AuthError$1;
+export declare const AuthError: typeof AuthError$1;
+export type QuotaError = QuotaError$1;
+export declare const QuotaError: typeof QuotaError$1;
+export type RateLimitError = RateLimitError$1;
+export declare const RateLimitError: typeof RateLimitError$1;
+export type NetworkError = NetworkError$1;
+export declare const NetworkError: typeof NetworkError$1;
+export type ServerError = ServerError$1;
+export declare const ServerError: typeof ServerError$1;
+export type ConflictError = ConflictError$1;
+export declare const ConflictError: typeof ConflictError$1;
+export type CorruptDataError = CorruptDataError$1;
+export declare const CorruptDataError: typeof CorruptDataError$1;
+export type EncryptionKeyError = EncryptionKeyError$1;
+export declare const EncryptionKeyError: typeof EncryptionKeyError$1;
+export type LayoutError = LayoutError$1;
+export declare const LayoutError: typeof LayoutError$1;
 
 export {};
@@ -14,233 +14,980 @@
  * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
  */
 
+import * as events from "./events";
+import * as nlfOptions from "./nlf-options";
 import * as ser from "./serializer";
+import * as util from "./util";
 
 import type * as localforageT from "localforage";
 import * as lkf from "lockable-forage";
 
+/**
+ * A pending operation that has not yet been reflected in the nonlocal store.
+ */
+export interface JournalEntry {
+    /**
+     * Operation to perform. For "set", the value is in the local store.
+     */
+    op: "set" | "remove",
+
+    /**
+     * Sequence number of this operation, to distinguish it from later
+     * operations on the same key.
+     */
+    seq: number,
+
+    /**
+     * Approximate size of the value, for "set".
+     */
+    size: number
+}
+
+/**
+ * A value kept in the local store as a cached copy of the nonlocal store.
+ */
+export interface ReadCacheEntry {
+    /**
+     * Approximate size of the value.
+     */
+    size: number,
+
+    /**
+     * Revision of the item in the nonlocal store that the cached copy is of.
+     */
+    revision: string | null,
+
+    /**
+     * When the entry was last used, as a count of uses, for LRU eviction.
+     */
+    used: number
+}
+
+/**
+ * A flush of a key that has been requested, but not yet started. Further
+ * writes to the key join it, rather than queueing another flush.
+ */
+export interface PendingFlush {
+    /**
+     * Promise for the flush, resolved when it's done.
+     */
+    promise: Promise<void>,
+
+    /**
+     * Function to queue the flush on the nonlocal store (after which it will
+     * start when everything queued before it is done).
+     */
+    start: () => void,
+
+    /**
+     * Timer for debouncing, if the flush is waiting for writes to stop.
+     */
+    timer: number | null
+}
+
+/**
+ * Options for flush.
+ */
+export interface FlushOptions {
+    /**
+     * Only flush these keys. If not set, every pending key is flushed.
+     */
+    keys?: string[],
+
+    /**
+     * Signal to stop waiting for the flush. The uploads themselves continue.
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * The state of synchronization with the nonlocal store, as returned by
+ * syncStatus.
+ */
+export interface SyncStatus {
+    /**
+     * Number of keys with operations not yet reflected in the nonlocal store.
+     */
+    pending: number,
+
+    /**
+     * Approximate size of the values not yet uploaded.
+     */
+    bytes: number,
+
+    /**
+     * Number of pending keys whose last attempt to flush failed.
+     */
+    failed: number,
+
+    /**
+     * The error from the last failed flush, or null if no pending keys have
+     * failed.
+     */
+    lastError: any,
+
+    /**
+     * Time (as from Date.now()) of the last successful flush, or null if
+     * nothing has been flushed yet.
+     */
+    lastSync: number | null
+}
+
 export interface CacheForage {
     localPromise: Promise<unknown>,
     nonlocalPromise: Promise<unknown>,
+    journalPromise: Promise<unknown>,
     local: lkf.LockableForage,
     nonlocal: typeof localforageT,
-    error: any,
-    cachedSize: number
+    journal: Record<string, JournalEntry>,
+    journalSeq: number,
+
+    /**
+     * Keys whose last attempt to flush to the nonlocal store failed, and the
+     * errors they failed with. They remain in the journal until flushed.
+     */
+    failed: Record<string, any>,
+
+    /**
+     * Function to call when flushing a key to the nonlocal store fails.
+     */
+    onError: ((error: any, key: string) => unknown) | null,
+
+    /**
+     * Error from the last failed flush, cleared once no keys have failed.
+     */
+    lastError: any,
+
+    /**
+     * Time of the last successful flush, if any.
+     */
+    lastSync: number | null,
+
+    cachedSize: number,
+
+    /**
+     * Time, in milliseconds, to wait after a write to a key before uploading
+     * it, in case it's written again.
+     */
+    debounce: number,
+
+    /**
+     * Flushes requested but not yet started, by key.
+     */
+    pendingFlushes: Record<string, PendingFlush>,
+
+    /**
+     * Maximum size of values to keep cached after they've been read or
+     * written, or 0 if read caching is disabled.
+     */
+    readCacheMax: number,
+
+    /**
+     * Values cached locally (and not pending any operation), with their
+     * revisions.
+     */
+    readCache: Record<string, ReadCacheEntry>,
+
+    /**
+     * Total size of the values in the read cache.
+     */
+    readCacheSize: number,
+
+    /**
+     * Number of uses of the read cache so far, for LRU.
+     */
+    readCacheUses: number,
+
+    readCachePromise: Promise<unknown>,
+
+    /**
+     * Revalidations of cached values in progress, by key.
+     */
+    revalidating: Record<string, Promise<unknown>>,
+
+    /**
+     * Listeners for this instance's events.
+     */
+    events: events.Emitter,
+
+    /**
+     * Stop passing on the nonlocal store's events to this instance.
+     */
+    unforward: () => void,
+
+    /**
+     * Progress of the uploads of each key flushed (or flushing) since nothing
+     * was last pending, for flush-progress events.
+     */
+    flushProgress: Record<string, {loaded: number, total: number}>
 }
 
 type LocalforageCacheForage = typeof localforageT & {
     _cf: CacheForage
 };
 
+/**
+ * Key in the local store under which the journal of pending operations is
+ * kept. The NUL prevents conflicts with any realistic key.
+ */
+const journalKey = "\x00cacheForage-journal";
+
+/**
+ * Key in the local store under which the index of the read cache is kept.
+ */
+const readCacheKey = "\x00cacheForage-readCache";
+
 async function _initStorage(
     this: LocalforageCacheForage,
     options: any
 ) {
-    this._cf = {
+    if (this._cf)
+        this._cf.unforward();
+    const cf: CacheForage = this._cf = {
         localPromise: Promise.all([]),
         nonlocalPromise: Promise.all([]),
+        journalPromise: Promise.all([]),
         local: new lkf.LockableForage(options.cacheForage.local),
         nonlocal: options.cacheForage.nonlocal,
-        error: null,
-        cachedSize: 0
+        journal: Object.create(null),
+        journalSeq: 0,
+        failed: Object.create(null),
+        onError: options.cacheForage.onError || null,
+        lastError: null,
+        lastSync: null,
+        cachedSize: 0,
+        debounce: options.cacheForage.debounce || 0,
+        pendingFlushes: Object.create(null),
+        readCacheMax: 0,
+        readCache: Object.create(null),
+        readCacheSize: 0,
+        readCacheUses: 0,
+        readCachePromise: Promise.all([]),
+        revalidating: Object.create(null),
+        events: events.instanceEmitter(this),
+        unforward: () => {},
+        flushProgress: Object.create(null)
     };
+
+    /* Pass on the nonlocal store's events other than its uploads. This goes
+     * through its emitter directly, rather than its addEventListener, so that
+     * it works even if the nonlocal store isn't set up yet, and includes the
+     * events of setting it up (such as logging in). */
+    const nonlocalEvents = events.instanceEmitter(cf.nonlocal);
+    const unforward = nonlocalEvents.forward(cf.events, [
+        "upload-progress", "download-progress", "auth-refresh",
+        "auth-required", "conflict", "quota-warning"
+    ]);
+
+    // And sum up the progress of flushes
+    const onProgress = (ev: events.NonlocalForageEvent<"upload-progress">) => {
+        const detail = ev.detail;
+        if (!(detail.key in cf.journal))
+            return;
+        cf.flushProgress[detail.key] = {
+            loaded: detail.loaded,
+            total: detail.total
+        };
+        flushProgressChanged(cf);
+    };
+    nonlocalEvents.addEventListener("upload-progress", onProgress);
+    cf.unforward = () => {
+        unforward();
+        nonlocalEvents.removeEventListener("upload-progress", onProgress);
+    };
+
+    // Read caching needs item revisions, to revalidate
+    if (options.cacheForage.readCacheSize &&
+        (<any> cf.nonlocal).getItemInfo)
+        cf.readCacheMax = options.cacheForage.readCacheSize;
+
+    // Load the read cache's index
+    const readCache: Record<string, ReadCacheEntry> | null =
+        await cf.local.localforage.getItem(readCacheKey);
+    if (readCache) {
+        for (const key in readCache) {
+            const entry = readCache[key];
+            cf.readCache[key] = entry;
+            cf.readCacheSize += entry.size;
+            cf.readCacheUses = Math.max(cf.readCacheUses, entry.used);
+        }
+        if (cf.readCacheMax) {
+            // In case the budget has shrunk
+            await evict(cf);
+        } else {
+            // No longer caching, so drop the cached values
+            for (const key in cf.readCache)
+                await cf.local.localforage.removeItem(key);
+            cf.readCache = Object.create(null);
+            cf.readCacheSize = 0;
+            await cf.local.localforage.removeItem(readCacheKey);
+        }
+    }
+
+    // Load any journal left over from a previous session
+    const journal: Record<string, JournalEntry> | null =
+        await cf.local.localforage.getItem(journalKey);
+    if (!journal)
+        return;
+
+    // And replay it
+    for (const key in journal) {
+        const entry = journal[key];
+        cf.journal[key] = entry;
+        cf.journalSeq = Math.max(cf.journalSeq, entry.seq);
+        uncache(cf, key);
+        cf.cachedSize += entry.size;
+        queueFlush(cf, key).catch(() => {});
+    }
 }
 
+/**
+ * Write the journal to the local store. Must be called with the journal
+ * already updated.
+ */
+function saveJournal(cf: CacheForage) {
+    const p = cf.journalPromise.then(() => {
+        return cf.local.localforage.setItem(journalKey, cf.journal);
+    });
+    cf.journalPromise = p.catch(() => {});
+    return p;
+}
+
+/**
+ * Record a pending operation in the journal. Must be called with the key
+ * locked.
+ */
+async function journalOp(
+    cf: CacheForage, key: string, op: "set" | "remove", size: number
+) {
+    const old = cf.journal[key];
+    if (old)
+        cf.cachedSize -= old.size;
+    cf.journal[key] = {op, seq: ++cf.journalSeq, size};
+    cf.cachedSize += size;
+    cachedSizeChanged(cf);
+    flushProgressChanged(cf);
+    await saveJournal(cf);
+
+    // Now pending, so no longer just a cached copy
+    if (uncache(cf, key))
+        await saveReadCache(cf);
+}
+
+/**
+ * Tell listeners that cachedSize has changed.
+ */
+function cachedSizeChanged(cf: CacheForage) {
+    cf.events.emit("cached-size", {cachedSize: cf.cachedSize});
+}
+
+/**
+ * Tell listeners the progress of flushing everything pending: the uploads so
+ * far, plus the estimated sizes of those not yet started. Once nothing is
+ * pending, starts again from zero.
+ */
+function flushProgressChanged(cf: CacheForage) {
+    let loaded = 0, total = 0;
+    for (const key in cf.flushProgress) {
+        loaded += cf.flushProgress[key].loaded;
+        total += cf.flushProgress[key].total;
+    }
+    for (const key in cf.journal) {
+        if (!(key in cf.flushProgress))
+            total += cf.journal[key].size;
+    }
+    cf.events.emit("flush-progress", {loaded, total});
+
+    let pending = false;
+    for (const key in cf.journal) {
+        pending = true;
+        break;
+    }
+    if (!pending)
+        cf.flushProgress = Object.create(null);
+}
+
+/**
+ * Write the index of the read cache to the local store.
+ */
+function saveReadCache(cf: CacheForage) {
+    const p = cf.readCachePromise.then(() => {
+        return cf.local.localforage.setItem(readCacheKey, cf.readCache);
+    });
+    cf.readCachePromise = p.catch(() => {});
+    return p;
+}
+
+/**
+ * Remove this key from the read cache's index, if it's there. Does not remove
+ * the value from the local store. Must be called with the key locked.
+ */
+function uncache(cf: CacheForage, key: string) {
+    const entry = cf.readCache[key];
+    if (!entry)
+        return false;
+    cf.readCacheSize -= entry.size;
+    delete cf.readCache[key];
+    return true;
+}
+
+/**
+ * Keep this value, which is in the nonlocal store with this revision, in the
+ * read cache. Must be called with the key locked, and followed by evict once
+ * it's unlocked.
+ */
+async function cacheValue(
+    cf: CacheForage, key: string, value: any, revision: string | null,
+    inLocal = false
+) {
+    const size = ser.approxSize(value);
+    if (size > cf.readCacheMax) {
+        // Too big to cache at all
+        if (inLocal)
+            await cf.local.localforage.removeItem(key);
+        return;
+    }
+    uncache(cf, key);
+    if (!inLocal)
+        await cf.local.localforage.setItem(key, value);
+    cf.readCache[key] = {size, revision, used: ++cf.readCacheUses};
+    cf.readCacheSize += size;
+    await saveReadCache(cf);
+}
+
+/**
+ * Keep this value, just read from the nonlocal store, in the read cache, as of
+ * the revision that was read. If the nonlocal store doesn't know that
+ * revision, the first revalidation will find it. Must be called with no key
+ * locked.
+ */
+async function cacheRead(cf: CacheForage, key: string, value: any) {
+    const revision = knownRevision(cf, key);
+    await cf.local.lock(key, async () => {
+        if (!cf.journal[key])
+            await cacheValue(cf, key, value, revision);
+    });
+    await evict(cf);
+}
+
+/**
+ * Get the revision of this item in the nonlocal store as of the nonlocal
+ * store's last read or write of it, or null if it doesn't know.
+ */
+function knownRevision(cf: CacheForage, key: string): string | null {
+    const nonlocal = <any> cf.nonlocal;
+    return nonlocal.knownRevision ? nonlocal.knownRevision(key) : null;
+}
+
+/**
+ * Evict the least recently used values until the read cache is within its
+ * budget. Must be called with no key locked.
+ */
+async function evict(cf: CacheForage) {
+    while (cf.readCacheSize > cf.readCacheMax) {
+        let lru: string | null = null;
+        for (const key in cf.readCache) {
+            const entry = cf.readCache[key];
+            if (lru === null || entry.used < cf.readCache[lru].used)
+                lru = key;
+        }
+        if (lru === null)
+            break;
+        const key = lru;
+        await cf.local.lock(key, async () => {
+            if (uncache(cf, key)) {
+                await cf.local.localforage.removeItem(key);
+                await saveReadCache(cf);
+            }
+        });
+    }
+}
+
+/**
+ * Check a cached value against the nonlocal store in the background, and
+ * update (or drop) it if it's changed.
+ */
+function revalidate(cf: CacheForage, key: string) {
+    if (key in cf.revalidating)
+        return cf.revalidating[key];
+    const p = cf.nonlocalPromise.then(async () => {
+        const entry = cf.readCache[key];
+        if (!entry)
+            return;
+        const nonlocal = <any> cf.nonlocal;
+        const info = await nonlocal.getItemInfo(key);
+        if (info && info.revision === entry.revision)
+            return;
+
+        // Changed remotely
+        const value = info ? await nonlocal.getItem(key) : null;
+        await cf.local.lock(key, async () => {
+            // Only update it if it's still cached (e.g., not written since)
+            if (cf.readCache[key] !== entry)
+                return;
+            if (value === null) {
+                uncache(cf, key);
+                await cf.local.localforage.removeItem(key);
+                await saveReadCache(cf);
+            } else {
+                await cacheValue(cf, key, value, info.revision);
+            }
+        });
+        await evict(cf);
+    });
+    cf.nonlocalPromise = p.catch(() => {});
+    const rp = cf.revalidating[key] = p.catch(() => {}).then(() => {
+        delete cf.revalidating[key];
+    });
+    return rp;
+}
+
+/**
+ * Queue a flush of this key to the nonlocal store. If a flush of the key is
+ * already queued but not yet started, this joins it, since it will upload the
+ * latest value anyway.
+ * @param cf  cacheForage instance data
+ * @param key  Key to flush
+ * @param delay  Time to wait, in milliseconds, for further writes before
+ *               queueing the flush. Each write to the key restarts the wait.
+ */
+function queueFlush(cf: CacheForage, key: string, delay = 0) {
+    let pending = cf.pendingFlushes[key];
+    if (!pending) {
+        let start: () => void = () => {};
+        const started = new Promise<void>(res => start = res);
+        const promise = started.then(() => {
+            const p = cf.nonlocalPromise.then(() => {
+                // Any writes from now on need another flush
+                if (cf.pendingFlushes[key] === pending)
+                    delete cf.pendingFlushes[key];
+                return flushKey(cf, key);
+            });
+            cf.nonlocalPromise = p.catch(() => {});
+            return p;
+        });
+        pending = cf.pendingFlushes[key] = {promise, start, timer: null};
+    }
+
+    const pf = pending;
+    if (pf.timer !== null) {
+        clearTimeout(pf.timer);
+        pf.timer = null;
+    }
+    if (delay) {
+        pf.timer = <any> setTimeout(() => {
+            pf.timer = null;
+            pf.start();
+        }, delay);
+    } else {
+        pf.start();
+    }
+    return pf.promise;
+}
+
+/**
+ * Perform the pending operation (if any) for this key on the nonlocal store,
+ * then remove it from the journal and local store. If this fails, the key is
+ * marked as failed, but stays in the journal, so it can be retried.
+ */
+async function flushKey(cf: CacheForage, key: string) {
+    try {
+        await flushKeyLocked(cf, key);
+        delete cf.failed[key];
+        if (!Object.keys(cf.failed).length)
+            cf.lastError = null;
+        cf.lastSync = Date.now();
+        if (cf.readCacheMax)
+            await evict(cf);
+    } catch (ex) {
+        cf.failed[key] = ex;
+        cf.lastError = ex;
+        if (cf.onError) {
+            try {
+                cf.onError(ex, key);
+            } catch (ex) {
+                console.error(ex);
+            }
+        }
+        throw ex;
+    }
+}
+
+/**
+ * Perform the flush itself for flushKey. The key is only locked while reading
+ * and updating the journal, not during the upload, so that further writes can
+ * be made (and coalesced into the next flush) while it's uploading.
+ */
+async function flushKeyLocked(cf: CacheForage, key: string) {
+    // Get the operation to perform
+    let entry: JournalEntry | null = null;
+    let value: any = null;
+    await cf.local.lock(key, async () => {
+        entry = cf.journal[key] || null;
+        if (entry && entry.op === "set")
+            value = await cf.local.localforage.getItem(key);
+    });
+    const op = <JournalEntry | null> entry;
+    if (!op)
+        return;
+
+    // Perform it
+    let revision: string | null = null;
+    if (op.op === "set") {
+        if (value !== null) {
+            await events.upload(
+                cf.events, key, () => cf.nonlocal.setItem(key, value)
+            );
+            if (cf.readCacheMax) {
+                // To keep it as a cached copy of what was just written
+                revision = knownRevision(cf, key);
+            }
+        }
+    } else {
+        await events.upload(
+            cf.events, key, () => cf.nonlocal.removeItem(key)
+        );
+    }
+
+    await cf.local.lock(key, async () => {
+        // If it was written again since, that write's flush will follow
+        if (cf.journal[key] !== op)
+            return;
+
+        delete cf.journal[key];
+        cf.cachedSize -= op.size;
+        cachedSizeChanged(cf);
+        const progress = cf.flushProgress[key];
+        if (progress)
+            progress.loaded = progress.total;
+        flushProgressChanged(cf);
+        await saveJournal(cf);
+
+        if (op.op === "set") {
+            if (revision !== null)
+                await cacheValue(cf, key, value, revision, true);
+            else
+                await cf.local.localforage.removeItem(key);
+        }
+    });
+}
+
+type IteratorCallback =
+    (value: any, key: string, iterationNumber: number) => any;
+
 async function iterate(
     this: LocalforageCacheForage,
-    iteratorCallback: (key: string) => any,
-    successCallback: () => unknown
+    options: nlfOptions.KeysOptions | IteratorCallback,
+    iteratorCallback?: IteratorCallback | (() => unknown),
+    successCallback?: () => unknown
 ) {
-    const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
+    if (typeof options === "function") {
+        // This API was made by clowns
+        successCallback = <() => unknown> iteratorCallback;
+        iteratorCallback = options;
+        options = {};
+    }
+    const cb = <IteratorCallback> iteratorCallback;
+    const signal = options.signal;
 
-    const promise = cf.nonlocalPromise.then(async () => {
-        await cf.local.localforage.iterate(iteratorCallback);
-        await cf.nonlocal.iterate(iteratorCallback);
-    });
-    cf.nonlocalPromise = promise.catch(x => cf.error = x);
-    await promise;
+    // Iterate in order over the merged view of the keys
+    const keys = await keysMerged(this._cf, options.prefix || "", signal);
+    let ret: any;
+    for (let i = 0; i < keys.length; i++) {
+        const value = await getItem.call(this, keys[i], {signal});
+        ret = cb(value, keys[i], i + 1);
+        if (ret !== void 0)
+            break;
+    }
 
     if (successCallback)
         successCallback();
+    return ret;
 }
 
 async function getItem(
     this: LocalforageCacheForage,
-    key: string, callback?: (value:any)=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | ((value:any)=>unknown),
+    callback?: (value:any)=>unknown
 ) {
     const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
-
-    const localPromise = cf.localPromise.then(() => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    const signal = opts.signal;
+    const local = util.queue(cf.localPromise, () => {
         return cf.local.localforage.getItem(key);
-    });
-    cf.localPromise = localPromise.catch(x => cf.error = x);
-    let value = await localPromise;
+    }, signal);
+    cf.localPromise = local.queue.catch(() => {});
+    let value = await local.promise;
+
+    const entry = cf.readCache[key];
+    if (value !== null && entry) {
+        // Use the cached copy, but make sure it's still current
+        entry.used = ++cf.readCacheUses;
+        revalidate(cf, key).catch(() => {});
 
-    if (value === null) {
+    } else if (value === null && !cf.journal[key]) {
         // Not present in local, try nonlocal
-        const promise = cf.nonlocalPromise.then(async () => {
-            return await cf.nonlocal.getItem(key);
-        });
-        cf.nonlocalPromise = promise.catch(x => cf.error = x);
-        value = await promise;
+        const nonlocal = <any> cf.nonlocal;
+        const nl = util.queue(cf.nonlocalPromise, async () => {
+            const value = await nonlocal.getItem(key, {signal});
+            if (value !== null && cf.readCacheMax)
+                await cacheRead(cf, key, value);
+            return value;
+        }, signal);
+        cf.nonlocalPromise = nl.queue.catch(() => {});
+        value = await nl.promise;
     }
 
-    if (callback)
-        callback(value);
+    if (cb)
+        cb(value);
     return value;
 }
 
 async function setItem(
     this: LocalforageCacheForage,
-    key: string, value: any, callback?: ()=>unknown
+    key: string, value: any,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
     const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
-
+    const [opts, cb] = util.operationArgs(options, callback);
     const sz = ser.approxSize(value);
-    this._cf.cachedSize += sz;
 
-    const localPromise = cf.localPromise.then(async () =>  {
+    /* Journal the write before performing it, so that a value can never be
+     * in the local store without a record that it needs to be uploaded. */
+    const local = util.queue(cf.localPromise, async () =>  {
         await cf.local.lock(key, async () => {
+            await journalOp(cf, key, "set", sz);
             await cf.local.localforage.setItem(key, value);
         });
-    });
-    cf.localPromise = localPromise.catch(x => cf.error = x);
-    await localPromise;
+    }, opts.signal);
+    cf.localPromise = local.queue.catch(() => {});
+    await local.promise;
     value = null;
 
-    cf.nonlocalPromise = cf.nonlocalPromise.then(async () => {
-        await cf.local.lock(key, async () => {
-            const value = await cf.local.localforage.getItem(key);
-            if (value !== null)
-                await cf.nonlocal.setItem(key, value);
-            await cf.local.localforage.removeItem(key);
-        });
-        this._cf.cachedSize -= sz;
-    }).catch(x => cf.error = x);
+    // Errors are reported through the failed list
+    queueFlush(cf, key, cf.debounce).catch(() => {});
 
-    if (callback)
-        callback();
+    if (cb)
+        cb();
 }
 
 async function removeItem(
     this: LocalforageCacheForage,
-    key: string, callback?: ()=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
     const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
-
-    const lp = cf.localPromise.then(async () => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    const local = util.queue(cf.localPromise, async () => {
         await cf.local.lock(key, async () => {
+            await journalOp(cf, key, "remove", 0);
             await cf.local.localforage.removeItem(key);
         });
-    });
-    cf.localPromise = lp.catch(x => cf.error = x);
-    const nlp = cf.nonlocalPromise.then(() => {
-        return cf.nonlocal.removeItem(key);
-    });
-    cf.nonlocalPromise = nlp.catch(x => cf.error = x);
+    }, opts.signal);
+    cf.localPromise = local.queue.catch(() => {});
+    await local.promise;
 
-    await lp;
-    await nlp;
+    // Errors are reported through the failed list
+    queueFlush(cf, key).catch(() => {});
 
-    if (callback)
-        callback();
+    if (cb)
+        cb();
+}
+
+/**
+ * Forget every pending operation and cached value, because the local store is
+ * being cleared or dropped. Flushes waiting out the debounce are started, and
+ * will find nothing to do.
+ */
+function forgetAll(cf: CacheForage) {
+    const pendingFlushes = cf.pendingFlushes;
+    cf.journal = Object.create(null);
+    cf.failed = Object.create(null);
+    cf.lastError = null;
+    cf.pendingFlushes = Object.create(null);
+    cf.cachedSize = 0;
+    cachedSizeChanged(cf);
+    flushProgressChanged(cf);
+    cf.readCache = Object.create(null);
+    cf.readCacheSize = 0;
+
+    for (const key in pendingFlushes) {
+        const pf = pendingFlushes[key];
+        if (pf.timer !== null) {
+            clearTimeout(pf.timer);
+            pf.timer = null;
+        }
+        pf.start();
+    }
+}
+
+/**
+ * Does dropInstance with these options drop this instance's local store?
+ */
+function dropsThis(
+    cf: CacheForage, options?: {name?: string, storeName?: string}
+) {
+    if (!options || !options.name)
+        return true;
+    const config = cf.local.localforage.config();
+    return options.name === config.name &&
+        (!options.storeName || options.storeName === config.storeName);
 }
 
 async function clear(
     this: LocalforageCacheForage,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
     callback?: ()=>unknown
 ) {
     const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
+    const [opts, cb] = util.operationArgs(options, callback);
 
+    // Clear both stores or neither, so can only abort before starting
+    util.throwIfAborted(opts.signal);
     const lp = cf.localPromise.then(() => {
+        // The journal is in the local store, so it's cleared as well
+        forgetAll(cf);
         return cf.local.localforage.clear();
     });
-    cf.localPromise = lp.catch(x => cf.error = x);
+    cf.localPromise = lp.catch(() => {});
     const nlp = cf.nonlocalPromise.then(() => {
         return cf.nonlocal.clear();
     });
-    cf.nonlocalPromise = nlp.catch(x => cf.error = x);
+    cf.nonlocalPromise = nlp.catch(() => {});
 
-    await lp;
-    await nlp;
+    await util.abortable(Promise.all([lp, nlp]), opts.signal);
 
-    if (callback)
-        callback();
+    if (cb)
+        cb();
 }
 
 async function length(
     this: LocalforageCacheForage,
+    options?: nlfOptions.OperationOptions | ((len: number)=>unknown),
     callback?: (len: number)=>unknown
 ) {
-    const len = (await keys.call(this)).length;
-    if (callback)
-        callback(len);
+    const [opts, cb] = util.operationArgs(options, callback);
+    const len = (await keys.call(this, {signal: opts.signal})).length;
+    if (cb)
+        cb(len);
     return len;
 }
 
 async function key(
     this: LocalforageCacheForage,
-    index: number, callback?: (key: string)=>unknown
+    index: number,
+    options?: nlfOptions.OperationOptions | ((key: string)=>unknown),
+    callback?: (key: string)=>unknown
 ) {
-    const key = (await keys.call(this))[index];
-    if (key) {
-        if (callback)
-            callback(key);
+    const [opts, cb] = util.operationArgs(options, callback);
+    const key = (await keys.call(this, {signal: opts.signal}))[index];
+    if (typeof key === "string") {
+        if (cb)
+            cb(key);
         return key;
     }
     throw new Error("Key does not exist");
 }
 
+/**
+ * Get every key with this prefix, in sorted order, as it will be once every
+ * pending operation is flushed: the keys in the nonlocal store, less those
+ * pending removal, plus those pending upload.
+ */
+async function keysMerged(
+    cf: CacheForage, prefix: string, signal?: AbortSignal
+) {
+    const hasPrefix = (x: string) => x.slice(0, prefix.length) === prefix;
+
+    // Local operations already requested must be in the journal
+    const journaled = cf.localPromise;
+
+    const nl = util.queue(cf.nonlocalPromise, async () => {
+        // The nonlocal store may not support prefixes, so filter it here too
+        const nlkeys: string[] = (prefix || signal)
+            ? await (<any> cf.nonlocal).keys({prefix, signal})
+            : await cf.nonlocal.keys();
+
+        // Merge in the journal as it is now that the listing is done
+        await journaled;
+        const seen: Record<string, boolean> = Object.create(null);
+        const ret: string[] = [];
+        for (const key of nlkeys) {
+            const entry = cf.journal[key];
+            if (seen[key] || !hasPrefix(key))
+                continue;
+            if (entry && entry.op === "remove")
+                continue;
+            seen[key] = true;
+            ret.push(key);
+        }
+        for (const key in cf.journal) {
+            if (!seen[key] && cf.journal[key].op === "set" && hasPrefix(key)) {
+                seen[key] = true;
+                ret.push(key);
+            }
+        }
+        return ret.sort();
+    }, signal);
+    cf.nonlocalPromise = nl.queue.catch(() => {});
+    return await nl.promise;
+}
+
 async function keys(
     this: LocalforageCacheForage,
+    options?: nlfOptions.KeysOptions | ((keys: string[])=>unknown),
     callback?: (keys: string[])=>unknown
 ) {
-    const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
-
-    const lkeysP = cf.localPromise.then(() => {
-        return cf.local.localforage.keys();
-    });
-    cf.localPromise = lkeysP.catch(x => cf.error = x);
-    const nlkeysP = cf.nonlocalPromise.then(() => {
-        return cf.nonlocal.keys();
-    });
-    cf.nonlocalPromise = nlkeysP.catch(x => cf.error = x);
+    if (typeof options === "function") {
+        // This API was made by clowns
+        callback = options;
+        options = void 0;
+    }
+    const opts = <nlfOptions.KeysOptions> (options || {});
+    const keys = await keysMerged(this._cf, opts.prefix || "", opts.signal);
+    if (callback)
+        callback(keys);
+    return keys;
+}
 
-    return (await lkeysP).concat(await nlkeysP);
+async function keysWithPrefix(
+    this: LocalforageCacheForage,
+    prefix: string,
+    options?: nlfOptions.OperationOptions | ((keys: string[])=>unknown),
+    callback?: (keys: string[])=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return keys.call(this, {prefix, signal: opts.signal}, cb);
 }
 
 async function dropInstance(
     this: LocalforageCacheForage,
-    options?: {name?: string, storeName?: string},
+    options?: {name?: string, storeName?: string, signal?: AbortSignal},
     callback?: () => unknown
 ) {
     const cf = this._cf;
-    if (cf.error)
-        throw cf.error;
+    const signal = options && options.signal;
 
+    // As with clear, can only abort before starting
+    util.throwIfAborted(signal);
     const lp = cf.localPromise.then(() => {
+        // If this instance is dropped, so is its journal
+        if (dropsThis(cf, options)) {
+            forgetAll(cf);
+            cf.unforward();
+        }
         return cf.local.localforage.dropInstance(options);
     });
-    cf.localPromise = lp.catch(x => cf.error = x);
+    cf.localPromise = lp.catch(() => {});
     const nlp = cf.nonlocalPromise.then(() => {
         return cf.nonlocal.dropInstance(options);
     });
-    cf.nonlocalPromise = nlp.catch(x => cf.error = x);
+    cf.nonlocalPromise = nlp.catch(() => {});
 
-    await lp;
-    await nlp;
+    await util.abortable(Promise.all([lp, nlp]), signal);
 
     if (callback)
         callback();
@@ -251,7 +998,224 @@ function cachedSize(this: LocalforageCacheForage) {
 }
 
 function nonlocalPromise(this: LocalforageCacheForage) {
-    return this._cf.nonlocalPromise;
+    // Include flushes still waiting out the debounce
+    const cf = this._cf;
+    return Promise.all(Object.keys(cf.pendingFlushes).map(
+        key => cf.pendingFlushes[key].promise.catch(() => {})
+    )).then(() => cf.nonlocalPromise);
+}
+
+function failedKeys(this: LocalforageCacheForage) {
+    return Object.keys(this._cf.failed);
+}
+
+async function retryFailed(this: LocalforageCacheForage) {
+    const cf = this._cf;
+    await Promise.all(Object.keys(cf.failed).map(key => queueFlush(cf, key)));
+}
+
+/**
+ * Flush pending operations to the nonlocal store, without waiting for any
+ * debounce, and wait until they're done. This includes writes made while
+ * flushing, so only resolves once none of the included keys are pending, and
+ * rejects if any of their uploads fail.
+ */
+async function flush(
+    this: LocalforageCacheForage,
+    options: FlushOptions = {}
+) {
+    const cf = this._cf;
+    while (true) {
+        util.throwIfAborted(options.signal);
+        const keys = (options.keys || Object.keys(cf.journal))
+            .filter(key => key in cf.journal);
+        if (!keys.length)
+            break;
+        await util.abortable(
+            Promise.all(keys.map(key => queueFlush(cf, key))), options.signal
+        );
+    }
+}
+
+/**
+ * Get the keys with operations not yet reflected in the nonlocal store.
+ */
+function pendingKeys(this: LocalforageCacheForage) {
+    return Object.keys(this._cf.journal).sort();
+}
+
+/**
+ * Get the state of synchronization with the nonlocal store.
+ */
+function syncStatus(this: LocalforageCacheForage): SyncStatus {
+    const cf = this._cf;
+    return {
+        pending: Object.keys(cf.journal).length,
+        bytes: cf.cachedSize,
+        failed: Object.keys(cf.failed).length,
+        lastError: cf.lastError,
+        lastSync: cf.lastSync
+    };
+}
+
+async function getItems(
+    this: LocalforageCacheForage,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const cf = this._cf;
+    const [opts, cb] = util.operationArgs(options, callback);
+    const signal = opts.signal;
+
+    // Read everything that's in the local store
+    const local = util.queue(cf.localPromise, () => {
+        return util.bulk(keys, void 0, key => {
+            return cf.local.localforage.getItem(key);
+        });
+    }, signal);
+    cf.localPromise = local.queue.catch(() => {});
+    const results = await local.promise;
+
+    const missing: util.BulkResult[] = [];
+    for (const result of results) {
+        const entry = cf.readCache[result.key];
+        if (result.error) {
+            continue;
+        } else if (result.value !== null && entry) {
+            // As in getItem
+            entry.used = ++cf.readCacheUses;
+            revalidate(cf, result.key).catch(() => {});
+        } else if (result.value === null && !cf.journal[result.key]) {
+            missing.push(result);
+        }
+    }
+
+    // Get the rest from the nonlocal store, all at once if it can
+    const nonlocal = <any> cf.nonlocal;
+    if (missing.length && typeof nonlocal.getItems === "function") {
+        const nl = util.queue(cf.nonlocalPromise, async () => {
+            const nlResults: util.BulkResult[] = await nonlocal.getItems(
+                missing.map(x => x.key), {signal}
+            );
+            if (cf.readCacheMax) {
+                for (const nlResult of nlResults) {
+                    if (!nlResult.error && nlResult.value !== null)
+                        await cacheRead(cf, nlResult.key, nlResult.value);
+                }
+            }
+            return nlResults;
+        }, signal);
+        cf.nonlocalPromise = nl.queue.catch(() => {});
+        const nlResults = await nl.promise;
+        nlResults.forEach((nlResult, idx) => {
+            if (nlResult.error) {
+                delete missing[idx].value;
+                missing[idx].error = nlResult.error;
+            } else {
+                missing[idx].value = nlResult.value;
+            }
+        });
+
+    } else {
+        // One by one
+        for (const result of missing) {
+            try {
+                result.value = await getItem.call(this, result.key, {signal});
+            } catch (ex) {
+                util.throwIfAborted(signal);
+                delete result.value;
+                result.error = ex;
+            }
+        }
+
+    }
+
+    if (cb)
+        cb(results);
+    return results;
+}
+
+async function setItems(
+    this: LocalforageCacheForage,
+    items: util.BulkItem[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const cf = this._cf;
+    const [opts, cb] = util.operationArgs(options, callback);
+
+    // Journal and write each, as in setItem, one at a time but in one go
+    const local = util.queue(cf.localPromise, () => {
+        return util.bulk(items.map(x => x.key), 1, (key, idx) => {
+            const value = items[idx].value;
+            return cf.local.lock(key, async () => {
+                await journalOp(cf, key, "set", ser.approxSize(value));
+                await cf.local.localforage.setItem(key, value);
+            });
+        });
+    }, opts.signal);
+    cf.localPromise = local.queue.catch(() => {});
+    const results = await local.promise;
+
+    // Errors are reported through the failed list
+    for (const result of results) {
+        if (!result.error)
+            queueFlush(cf, result.key, cf.debounce).catch(() => {});
+    }
+
+    if (cb)
+        cb(results);
+    return results;
+}
+
+async function removeItems(
+    this: LocalforageCacheForage,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const cf = this._cf;
+    const [opts, cb] = util.operationArgs(options, callback);
+
+    // Journal and remove each, as in removeItem, one at a time but in one go
+    const local = util.queue(cf.localPromise, () => {
+        return util.bulk(keys, 1, key => {
+            return cf.local.lock(key, async () => {
+                await journalOp(cf, key, "remove", 0);
+                await cf.local.localforage.removeItem(key);
+            });
+        });
+    }, opts.signal);
+    cf.localPromise = local.queue.catch(() => {});
+    const results = await local.promise;
+
+    // Errors are reported through the failed list
+    for (const result of results) {
+        if (!result.error)
+            queueFlush(cf, result.key).catch(() => {});
+    }
+
+    if (cb)
+        cb(results);
+    return results;
+}
+
+function addEventListener<K extends keyof events.EventMap>(
+    this: LocalforageCacheForage,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).addEventListener(type, listener);
+}
+
+function removeEventListener<K extends keyof events.EventMap>(
+    this: LocalforageCacheForage,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).removeEventListener(type, listener);
 }
 
 export const cacheForage = {
@@ -268,5 +1232,16 @@ export const cacheForage = {
     keys,
     dropInstance,
     cachedSize,
-    nonlocalPromise
+    nonlocalPromise,
+    failedKeys,
+    retryFailed,
+    keysWithPrefix,
+    flush,
+    pendingKeys,
+    syncStatus,
+    addEventListener,
+    removeEventListener,
+    getItems,
+    setItems,
+    removeItems
 };
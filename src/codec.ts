@@ -0,0 +1,572 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as encryption from "./encryption";
+import * as errors from "./errors";
+import * as nlfOptions from "./nlf-options";
+import * as ser from "./serializer";
+import * as util from "./util";
+
+/* Prefixes of encrypted and hashed filenames and of directories, and the
+ * names of the manifest, the encryption key check, the record of the key
+ * separator and empty keys (or segments). safeify never generates these, as
+ * it only generates "%" followed by two hex digits, or by "u" and four hex
+ * digits. "x", "h", "s", "m", "k" and "l" are neither, and while "e" is a
+ * hex digit, "%e" is only ever compared with whole names, and safeify always
+ * follows it with another digit. */
+const encryptedNamePrefix = "%x";
+const hashedNamePrefix = "%h";
+const dirPrefix = "%s";
+const manifestName = "%m";
+const keyCheckName = "%k";
+const layoutName = "%l";
+const emptyName = "%e";
+
+// Content of the encryption key check, before encryption
+const keyCheckValue = "nonlocalForage key check";
+
+const defaultMaxFilenameLength = 255;
+
+/**
+ * Access to the files of a store by path (as returned by keyToPath), which
+ * the codec uses for the manifest. Provided by each driver. These are called
+ * from within the driver's own operations, so must not queue.
+ */
+export interface RawStore {
+    /**
+     * Read a file, or return null if it doesn't exist.
+     */
+    read(path: string[]): Promise<Uint8Array | null>;
+
+    /**
+     * Write a file.
+     */
+    write(path: string[], data: Uint8Array): Promise<void>;
+
+    /**
+     * List the names of the files (not directories) directly in the store's
+     * directory.
+     */
+    list(): Promise<string[]>;
+
+    /**
+     * Remove a file, if it exists.
+     */
+    remove(path: string[]): Promise<void>;
+}
+
+/**
+ * Conversion between values and the data stored on the backend, and between
+ * keys and filenames, as configured for a given store.
+ *
+ * If a separator is set, each segment of a key but the last names a
+ * directory, so keys are stored in a tree of directories.
+ *
+ * Keys (or segments) whose filenames would be too long are stored under a
+ * hash instead. The original keys are kept in a manifest file, and also
+ * recorded in the files themselves, so that they can be recovered if the
+ * manifest is missing an entry (e.g., because two instances updated it at
+ * once).
+ */
+export class Codec {
+    constructor(
+        /**
+         * Encryption to apply, if any.
+         */
+        public encryption: encryption.Encryption | null,
+
+        /**
+         * Options for serialization, such as compression.
+         */
+        public serializeOpts: ser.SerializeOptions,
+
+        /**
+         * Maximum length of a filename. Longer ones are hashed.
+         */
+        public maxFilenameLength: number,
+
+        /**
+         * Separator of the segments of keys, which are stored in nested
+         * directories, or null to store every key directly in the store's
+         * directory.
+         */
+        public separator: string | null,
+
+        /**
+         * Access to the store's files, for the manifest.
+         */
+        public store: RawStore
+    ) {}
+
+    /**
+     * Create a codec for a store with these (localForage) options.
+     * @param options  localForage options
+     * @param store  Access to the store's files
+     */
+    static async create(options: any, store: RawStore) {
+        const nlfOpts: nlfOptions.NonlocalforageOptions =
+            options.nonlocalforage || {};
+        let enc: encryption.Encryption | null = null;
+        if (nlfOpts.encryption) {
+            enc = await encryption.Encryption.create(
+                nlfOpts.encryption, util.cloudDirectory(options)
+            );
+        }
+        return new Codec(enc, {
+            compression: nlfOpts.compression,
+            compressionThreshold: nlfOpts.compressionThreshold
+        },
+            nlfOpts.maxFilenameLength || defaultMaxFilenameLength,
+            nlfOpts.keySeparator || null,
+            store
+        );
+    }
+
+    /**
+     * Convert a value to the data to store.
+     * @param value  Value to store
+     * @param key  Key under which it's being stored, if it's an item
+     */
+    async encode(value: any, key?: string) {
+        let serializeOpts = this.serializeOpts;
+        if (typeof key === "string") {
+            const path = await this.keyToPath(key);
+            if (path.some(x => this._isHashed(x)))
+                serializeOpts = {...serializeOpts, key};
+        }
+        let data = await ser.serialize(value, serializeOpts);
+        if (this.encryption)
+            data = await this.encryption.encrypt(data);
+        return data;
+    }
+
+    /**
+     * Convert stored data back to a value. Data stored without encryption can
+     * still be read, even if encryption is enabled.
+     */
+    async decode(data: Uint8Array) {
+        return await ser.deserialize(await this._decrypt(data));
+    }
+
+    /**
+     * Decrypt stored data, if it's encrypted.
+     */
+    private async _decrypt(data: Uint8Array) {
+        if (encryption.Encryption.isEncrypted(data)) {
+            if (!this.encryption) {
+                throw new errors.EncryptionKeyError(
+                    "This item is encrypted, but no encryption key is set"
+                );
+            }
+            data = await this.encryption.decrypt(data);
+        }
+        return data;
+    }
+
+    /**
+     * Get the path (the names of any directories, then the filename) under
+     * which to store this key.
+     * @param key  Key to look up
+     * @param create  Set if the file is about to be written, so that any
+     *                hashed names are added to the manifest.
+     */
+    async keyToPath(key: string, create = false) {
+        const segments = this._segments(key);
+        const path: string[] = [];
+        for (let i = 0; i < segments.length; i++) {
+            const name = await this._name(segments[i]);
+            if (create && this._isHashed(name))
+                await this._addToManifest(name, segments[i]);
+            path.push((i < segments.length - 1) ? dirPrefix + name : name);
+        }
+        if (create && path.length > 1)
+            await this._recordLayout();
+        return path;
+    }
+
+    /**
+     * Get the path of the directory containing every key with this prefix.
+     */
+    async prefixToDirs(prefix: string) {
+        const segments = this._segments(prefix);
+        segments.pop();
+        const dirs: string[] = [];
+        for (const segment of segments)
+            dirs.push(dirPrefix + await this._name(segment));
+        return dirs;
+    }
+
+    /**
+     * Get the prefixes of the names, in the directory given by prefixToDirs,
+     * of every file or directory that may hold a key with this prefix, or
+     * null if they can't be known (e.g., because keys are encrypted). Only a
+     * hint: other files may also have these prefixes.
+     */
+    prefixToNames(prefix: string) {
+        if (this.encryption && this.encryption.encryptKeys)
+            return null;
+        const segments = this._segments(prefix);
+        const name = ser.safeify(segments[segments.length - 1]);
+        if (!name)
+            return null;
+        return [
+            name, hashedNamePrefix,
+            dirPrefix + name, dirPrefix + hashedNamePrefix
+        ];
+    }
+
+    /**
+     * Split a key into the segments of its path.
+     */
+    private _segments(key: string) {
+        if (this.separator)
+            return key.split(this.separator);
+        return [key];
+    }
+
+    /**
+     * Get the filename for this key (or segment of a key), without updating
+     * the manifest.
+     */
+    private async _name(key: string) {
+        let name: string;
+        if (this.encryption && this.encryption.encryptKeys) {
+            name = encryptedNamePrefix +
+                await this.encryption.encryptName(key);
+        } else {
+            name = key ? ser.safeify(key) : emptyName;
+        }
+        if (name.length <= this.maxFilenameLength)
+            return name;
+
+        // Too long, so hash it
+        if (this.encryption)
+            return hashedNamePrefix + await this.encryption.hashName(key);
+        return hashedNamePrefix + util.toHex(new Uint8Array(
+            await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key))
+        ));
+    }
+
+    private _isHashed(name: string) {
+        if (this.isDirName(name))
+            name = name.slice(dirPrefix.length);
+        return name.slice(0, hashedNamePrefix.length) === hashedNamePrefix;
+    }
+
+    /**
+     * Is this the name of a directory of keys?
+     */
+    isDirName(name: string) {
+        return name.slice(0, dirPrefix.length) === dirPrefix;
+    }
+
+    /**
+     * Is this the path of an item (i.e., not of the codec's own data)?
+     */
+    isKeyPath(path: string[]) {
+        return path.length > 1 || (
+            path[0] !== manifestName && path[0] !== keyCheckName &&
+            path[0] !== layoutName
+        );
+    }
+
+    /**
+     * Get the key stored at this path, or null if the file isn't an item.
+     */
+    async pathToKey(path: string[]): Promise<string | null> {
+        if (!this.isKeyPath(path))
+            return null;
+
+        const segments: string[] = [];
+        for (let i = 0; i < path.length; i++) {
+            let name = path[i];
+            if (i < path.length - 1) {
+                if (!this.isDirName(name))
+                    return null;
+                name = name.slice(dirPrefix.length);
+            }
+            const segment = await this._nameToSegment(name);
+            if (segment === null) {
+                // Not in the manifest, so get the key from the file itself
+                return await this._keyFromFile(path);
+            }
+            segments.push(segment);
+        }
+        return segments.join(this.separator || "");
+    }
+
+    /**
+     * Get the key (or segment of a key) for this filename, or null if it's
+     * hashed and not in the manifest.
+     */
+    private async _nameToSegment(name: string): Promise<string | null> {
+        if (this._isHashed(name)) {
+            const manifest = await this._loadManifest();
+            return (name in manifest) ? manifest[name] : null;
+        }
+
+        if (name.slice(0, encryptedNamePrefix.length) === encryptedNamePrefix) {
+            if (!this.encryption) {
+                throw new errors.EncryptionKeyError(
+                    "This key is encrypted, but no encryption key is set"
+                );
+            }
+            return await this.encryption.decryptName(
+                name.slice(encryptedNamePrefix.length)
+            );
+        }
+
+        if (name === emptyName)
+            return "";
+
+        return ser.unsafeify(name);
+    }
+
+    /**
+     * Get the key recorded in the file at this path, adding any hashed names
+     * in its path to the manifest.
+     */
+    private async _keyFromFile(path: string[]) {
+        const data = await this.store.read(path);
+        if (!data)
+            return null;
+        const key = await ser.deserializeKey(await this._decrypt(data));
+        if (key === null)
+            return null;
+
+        const manifest = await this._loadManifest();
+        const segments = this._segments(key);
+        for (let i = 0; i < segments.length; i++) {
+            const name = await this._name(segments[i]);
+            if (this._isHashed(name))
+                manifest[name] = segments[i];
+        }
+        return key;
+    }
+
+    /**
+     * Get the manifest, loading it if it isn't yet loaded.
+     */
+    private _loadManifest() {
+        if (!this.manifest) {
+            const p = this.manifest = this._readManifest();
+            p.catch(() => {
+                if (this.manifest === p)
+                    this.manifest = null;
+            });
+        }
+        return this.manifest;
+    }
+
+    /**
+     * Read the manifest from the store.
+     */
+    private async _readManifest() {
+        const manifest: Record<string, string> = Object.create(null);
+        const data = await this.store.read([manifestName]);
+        if (data) {
+            const stored = await this.decode(data);
+            for (const name in stored)
+                manifest[name] = stored[name];
+        }
+        return manifest;
+    }
+
+    /**
+     * Add this hashed filename to the manifest, if it's not already there.
+     */
+    private _addToManifest(name: string, key: string) {
+        const p = this.manifestPromise.then(async () => {
+            const manifest = await this._loadManifest();
+            if (manifest[name] === key)
+                return;
+            manifest[name] = key;
+            await this._writeManifest(manifest, null);
+        });
+        this.manifestPromise = p.catch(() => {});
+        return p;
+    }
+
+    /**
+     * Remove this hashed filename from the manifest, if it's there.
+     */
+    private _removeFromManifest(name: string) {
+        const p = this.manifestPromise.then(async () => {
+            const manifest = await this._loadManifest();
+            if (!(name in manifest))
+                return;
+            delete manifest[name];
+            await this._writeManifest(manifest, name);
+        });
+        this.manifestPromise = p.catch(() => {});
+        return p;
+    }
+
+    /**
+     * Write the manifest back to the store, merging in anything added
+     * elsewhere first.
+     * @param manifest  The manifest as updated
+     * @param removed  Name just removed from the manifest, not to merge back
+     */
+    private async _writeManifest(
+        manifest: Record<string, string>, removed: string | null
+    ) {
+        const stored = await this._readManifest();
+        for (const n in stored) {
+            if (!(n in manifest) && n !== removed)
+                manifest[n] = stored[n];
+        }
+        await this.store.write(
+            [manifestName], await this.encode(Object.assign({}, manifest))
+        );
+    }
+
+    /**
+     * Forget this key, because it's been removed: if its filename is hashed,
+     * remove it from the manifest. Any other keys in the same directories are
+     * unaffected.
+     */
+    async removed(key: string) {
+        const segments = this._segments(key);
+        const name = await this._name(segments[segments.length - 1]);
+        if (this._isHashed(name))
+            await this._removeFromManifest(name);
+    }
+
+    /**
+     * Make sure that the encryption key, if any, is the one the store is
+     * encrypted with, by decrypting the check value stored with it. If there
+     * is none yet, store one. Without this, a wrong key would go unnoticed
+     * until something written with the right one is read, leaving a mix of
+     * keys in the store. Each driver calls this when it's set up.
+     */
+    async checkKey() {
+        if (!this.encryption)
+            return;
+        const data = await this.store.read([keyCheckName]);
+        if (!data) {
+            const check = new TextEncoder().encode(keyCheckValue);
+            await this.store.write(
+                [keyCheckName], await this.encryption.encrypt(check)
+            );
+            return;
+        }
+
+        // decrypt throws an EncryptionKeyError if the key is wrong
+        if (!encryption.Encryption.isEncrypted(data) ||
+            new TextDecoder().decode(await this.encryption.decrypt(data)) !==
+            keyCheckValue) {
+            throw new errors.EncryptionKeyError(
+                "The store's encryption key check is corrupt"
+            );
+        }
+    }
+
+    /**
+     * Make sure that the key separator, if any, is the one the store's keys
+     * were written with, as recorded in the store. If a different one (or
+     * none) is recorded, keys would be misread, so this throws a LayoutError.
+     * If a key separator is set, and none was when the store was last opened,
+     * move any keys containing it from the store's directory (where they were
+     * stored without the separator) to their directories, so that they're
+     * found. If a key is in both places, the one in its directory is kept.
+     * The separator is then recorded, so this is only done once. Each driver
+     * calls this when it's set up, after checkKey.
+     */
+    async migrate() {
+        const separator = this.separator;
+        const layout = await this.store.read([layoutName]);
+        if (layout) {
+            const recorded: string = await this.decode(layout);
+            if (recorded !== separator) {
+                throw new errors.LayoutError(
+                    "This store's keys are split at " +
+                    `${JSON.stringify(recorded)}, but it was opened with ` +
+                    (separator === null
+                        ? "no keySeparator"
+                        : `the keySeparator ${JSON.stringify(separator)}`)
+                );
+            }
+            this.layout = Promise.resolve();
+            return;
+        }
+        if (!separator)
+            return;
+
+        for (const name of await this.store.list()) {
+            const key = await this.pathToKey([name]);
+            if (key === null || key.indexOf(separator) < 0)
+                continue;
+            const path = await this.keyToPath(key, true);
+            if (!(await this.store.read(path))) {
+                const data = await this.store.read([name]);
+                if (!data)
+                    continue;
+                await this.store.write(
+                    path, await this.encode(await this.decode(data), key)
+                );
+            }
+            await this.store.remove([name]);
+            if (this._isHashed(name))
+                await this._removeFromManifest(name);
+        }
+
+        await this._recordLayout();
+    }
+
+    /**
+     * Record the key separator in the store, if it isn't already, so that the
+     * store isn't then opened with a different one.
+     */
+    private _recordLayout() {
+        if (!this.layout) {
+            const p = this.layout = this.encode(this.separator).then(
+                data => this.store.write([layoutName], data)
+            );
+            p.catch(() => {
+                if (this.layout === p)
+                    this.layout = null;
+            });
+        }
+        return this.layout;
+    }
+
+    /**
+     * Forget the manifest and the recorded layout, because the store has been
+     * cleared.
+     */
+    clear() {
+        this.manifest = Promise.resolve(Object.create(null));
+        this.layout = null;
+    }
+
+    /**
+     * Promise for recording the key separator in the store, or null if it
+     * isn't known to be recorded.
+     */
+    layout: Promise<unknown> | null = null;
+
+    /**
+     * Map of hashed filenames to keys, loaded when first needed.
+     */
+    manifest: Promise<Record<string, string>> | null = null;
+
+    /**
+     * Promise for the last update to the manifest, so that updates are done
+     * one at a time.
+     */
+    manifestPromise: Promise<unknown> = Promise.all([]);
+}
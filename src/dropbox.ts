@@ -20,28 +20,233 @@ import * as bgoauth2 from "@badgateway/oauth2-client";
 import type * as dropboxT from "dropbox";
 declare let Dropbox: typeof dropboxT;
 
+import * as codec from "./codec";
+import * as errors from "./errors";
+import * as events from "./events";
 import * as oauth2 from "./oauth2";
+import * as retry from "./retry";
 import * as nlfOptions from "./nlf-options";
-import * as ser from "./serializer";
 import * as util from "./util";
 
 interface DropboxGlobalData {
     promise: Promise<unknown>;
     dbx: dropboxT.Dropbox;
+
+    /**
+     * Listeners for events concerning the whole account (login and quota),
+     * which are forwarded to every instance.
+     */
+    events: events.Emitter;
 }
 
 const dbById: Record<string, DropboxGlobalData> = Object.create(null);
 
+/* Listeners for events concerning each account, by client ID. These exist
+ * before the account is logged in, so that instances can pass on the events
+ * of logging in. */
+const eventsById: Record<string, events.Emitter> = Object.create(null);
+
+/**
+ * Get the emitter for events concerning the account with this client ID.
+ */
+function accountEvents(clientId: string) {
+    let emitter = eventsById[clientId];
+    if (!emitter)
+        emitter = eventsById[clientId] = new events.Emitter();
+    return emitter;
+}
+
+// Upload chunk sizes. Dropbox doesn't accept uploads larger than 150MiB.
+const defaultChunkSize = 8 * 1024 * 1024;
+const maxChunkSize = 150 * 1024 * 1024;
+
+// Maximum number of entries in a batch request
+const maxBatchSize = 1000;
+
+// Default number of keys to read or write at once in a bulk operation
+const defaultBulkConcurrency = 4;
+
+// Time to wait, in milliseconds, between checks of an asynchronous batch job
+const batchPollDelay = 1000;
+
 export interface DropboxLocalData {
     dbg: DropboxGlobalData;
     dbx: dropboxT.Dropbox;
+    nlfOpts: nlfOptions.NonlocalforageOptions;
+    codec: codec.Codec;
     dir: string;
+
+    /**
+     * Revision of each file as last read or written by this instance, for
+     * conflict detection and knownRevision.
+     */
+    revs: Record<string, string>;
+
+    /**
+     * Upload sessions that didn't finish, by path, with how much of the
+     * content Dropbox received and the hash of the content, so that uploading
+     * the same content again resumes them.
+     */
+    uploads: Record<string, {sessionId: string, offset: number, hash: string}>;
+
+    /**
+     * Listeners for this instance's events.
+     */
+    events: events.Emitter;
+
+    /**
+     * Stop passing on the account's events to this instance.
+     */
+    unforward: () => void;
 }
 
 type LocalforageDropbox = typeof localforageT & {
     _dbx: DropboxLocalData;
 };
 
+/**
+ * Convert an error from the Dropbox SDK into an error of the appropriate type.
+ * Errors that didn't come from Dropbox are returned unchanged.
+ */
+function dropboxError(ex: any): any {
+    if (ex instanceof errors.NonlocalForageError)
+        return ex;
+    if (ex instanceof TypeError) {
+        // fetch failed, so there was no response at all
+        return new errors.NetworkError(ex.message, ex);
+    }
+    if (!ex || typeof ex.status !== "number")
+        return ex;
+
+    const error = ex.error || {};
+    const summary: string =
+        (typeof error === "string") ? error : (error.error_summary || "");
+    const message = summary || `${ex.message || ex}`;
+
+    if (ex.status === 409) {
+        // Dropbox reports most API errors as 409, with a summary
+        if (/not_found/.test(summary))
+            return new errors.NotFoundError(message, ex, ex.status);
+        if (/insufficient_space/.test(summary))
+            return new errors.QuotaError(message, ex, ex.status);
+        if (/too_many_write_operations/.test(summary))
+            return new errors.RateLimitError(message, ex, ex.status);
+        if (/conflict/.test(summary))
+            return new errors.ConflictError(message, ex, ex.status);
+        return new errors.NonlocalForageError(message, ex, ex.status);
+    }
+
+    let retryAfter: number | undefined = void 0;
+    if (error.error && typeof error.error.retry_after === "number")
+        retryAfter = error.error.retry_after * 1000;
+    else if (ex.headers && ex.headers.get)
+        retryAfter = errors.parseRetryAfter(ex.headers.get("retry-after"));
+    return errors.fromHTTPStatus(ex.status, message, ex, retryAfter);
+}
+
+/**
+ * Convert the failure of one entry of a batch request into an error of the
+ * appropriate type.
+ */
+function batchError(failure: any) {
+    // Build a summary like those Dropbox gives for errors of single requests
+    let summary = "";
+    let err = failure;
+    while (err && typeof err[".tag"] === "string") {
+        summary += `${err[".tag"]}/`;
+        err = err[err[".tag"]];
+    }
+    return dropboxError({
+        status: 409,
+        error: {error_summary: summary, error: failure}
+    });
+}
+
+/**
+ * Perform this request, converting any error it raises, and retrying it if it
+ * fails transiently. Only for requests that are safe to repeat.
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param fn  Function to perform the request
+ * @param signal  Signal to stop retrying
+ */
+function request<T>(
+    nlfOpts: nlfOptions.NonlocalforageOptions, fn: () => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    return retry.retry(nlfOpts, async () => {
+        try {
+            return await fn();
+        } catch (ex) {
+            throw dropboxError(ex);
+        }
+    }, signal);
+}
+
+/**
+ * Perform this operation (or this part of a bulk operation), converting any
+ * errors it raises (and emitting any events they warrant). The operation's
+ * requests are retried individually, so the operation itself never is.
+ */
+async function attempt<T>(
+    dbg: DropboxGlobalData, fn: () => Promise<T>
+): Promise<T> {
+    try {
+        return await fn();
+    } catch (ex) {
+        const err = dropboxError(ex);
+        events.error(dbg.events, err);
+        throw err;
+    }
+}
+
+/**
+ * Run this operation on the Dropbox request queue, with attempt. If the signal
+ * is aborted before the operation starts, it's skipped.
+ */
+function run<T>(
+    dbg: DropboxGlobalData, fn: () => Promise<T>, signal?: AbortSignal
+): Promise<T> {
+    const q = util.queue(dbg.promise, () => attempt(dbg, fn), signal);
+    dbg.promise = q.queue;
+    return q.promise;
+}
+
+/**
+ * List the entries of a folder, following the cursor across all pages. Calls
+ * the callback for each entry as its page arrives. If the callback returns
+ * anything other than undefined, stops listing and returns that value. Each
+ * page is retried individually, so the callback is never called twice for the
+ * same entry.
+ * @param dbx  Dropbox instance
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param path  Path of the folder to list
+ * @param cb  Callback for each entry
+ * @param recursive  Also list the contents of all subfolders
+ */
+async function listFolder(
+    dbx: dropboxT.Dropbox, nlfOpts: nlfOptions.NonlocalforageOptions,
+    path: string,
+    cb: (entry: dropboxT.files.ListFolderResult["entries"][0]) => any,
+    recursive = false
+) {
+    let files = await request(
+        nlfOpts, () => dbx.filesListFolder({path, recursive})
+    );
+    while (true) {
+        for (const entry of files.result.entries) {
+            const ret = await cb(entry);
+            if (ret !== void 0)
+                return ret;
+        }
+        if (!files.result.has_more)
+            break;
+        const cursor = files.result.cursor;
+        files = await request(
+            nlfOpts, () => dbx.filesListFolderContinue({cursor})
+        );
+    }
+}
+
 async function logIn(options: any) {
     const nlfOpts: nlfOptions.NonlocalforageOptions = options.nonlocalforage;
 
@@ -54,7 +259,8 @@ async function logIn(options: any) {
 
     dbById[clientId] = dbg = {
         promise: Promise.all([]),
-        dbx
+        dbx,
+        events: accountEvents(clientId)
     };
 
     // Get the authentication URL
@@ -112,6 +318,7 @@ async function logIn(options: any) {
     // If we didn't authenticate, get a new code
     if (!tokenInfo) {
         // Wait for the access token
+        dbg.events.emit("auth-required", {error: null});
         const codeInfo = await oauth2.authWin(nlfOpts, authUrl, state);
 
         tokenInfo = await oauth2Client.authorizationCode.getToken({
@@ -133,8 +340,16 @@ async function logIn(options: any) {
     const refresh = () => {
         dbg.promise = dbg.promise.catch(console.error).then(async () => {
             const refreshToken = tokenInfo!.refreshToken;
-            tokenInfo = await oauth2Client.refreshToken(tokenInfo!);
+            try {
+                tokenInfo = await oauth2Client.refreshToken(tokenInfo!);
+            } catch (ex) {
+                dbg.events.emit("auth-required", {error: ex});
+                throw ex;
+            }
             tokenInfo.refreshToken = tokenInfo.refreshToken || refreshToken;
+            dbg.events.emit("auth-refresh", {
+                expiresAt: tokenInfo.expiresAt
+            });
             if (options.localforage) {
                 options.localforage.setItem("dropbox-access-token", tokenInfo.accessToken);
                 options.localforage.setItem("dropbox-refresh-token", tokenInfo.refreshToken!);
@@ -154,6 +369,12 @@ async function _initStorage(
     this: LocalforageDropbox,
     options: any
 ) {
+    // Pass on the account's events, including those of logging in
+    const emitter = events.instanceEmitter(this);
+    if (this._dbx)
+        this._dbx.unforward();
+    const unforward = accountEvents(options.dropbox.clientId).forward(emitter);
+
     try {
         // Load the library
         if (typeof Dropbox === "undefined")
@@ -163,202 +384,801 @@ async function _initStorage(
         const dbx = dbg.dbx;
 
         // Create the store path
+        const nlfOpts: nlfOptions.NonlocalforageOptions =
+            options.nonlocalforage;
         let curDir = "";
-        const p = dbg.promise.catch(console.error).then(async () => {
+        await run(dbg, async () => {
             const path = util.cloudDirectory(options);
             for (const part of path.split("/")) {
-                const files = await dbx.filesListFolder({path: curDir});
                 // Check if it already exists
-                let exists = false;
-                for (const file of files.result.entries) {
-                    if (file[".tag"] === "folder" && file.name === part) {
-                        exists = true;
-                        break;
+                const exists = !!(await listFolder(
+                    dbx, nlfOpts, curDir, file => {
+                        if (file[".tag"] === "folder" && file.name === part)
+                            return true;
                     }
-                }
+                ));
                 curDir = `${curDir}/${part}`;
-                if (!exists) {
-                    await dbx.filesCreateFolderV2({
-                        path: curDir
-                    });
-                }
+                if (!exists)
+                    await createFolder(dbx, nlfOpts, curDir);
             }
         });
-        dbg.promise = p;
-        await p;
 
         this._dbx = {
             dbg,
             dbx: dbg.dbx,
-            dir: curDir
+            nlfOpts: options.nonlocalforage,
+            codec: await codec.Codec.create(options, {
+                read: async path => {
+                    const dl = await downloadFile(this._dbx, path);
+                    return dl ? dl.data : null;
+                },
+                write: async (path, data) => {
+                    await upload(
+                        this._dbx, dropboxPath(this._dbx, path), data,
+                        {".tag": "overwrite"}
+                    );
+                },
+                list: async () => {
+                    const names: string[] = [];
+                    await listFolder(dbx, nlfOpts, curDir, entry => {
+                        if (entry[".tag"] === "file")
+                            names.push(entry.name);
+                    });
+                    return names;
+                },
+                remove: async path => {
+                    await deletePath(
+                        dbx, nlfOpts, dropboxPath(this._dbx, path)
+                    );
+                }
+            }),
+            dir: curDir,
+            revs: Object.create(null),
+            uploads: Object.create(null),
+            events: emitter,
+            unforward
         };
+        await this._dbx.codec.checkKey();
+        await this._dbx.codec.migrate();
 
     } catch (ex: any) {
+        unforward();
         console.error(`${ex}\n${ex.stack}`);
-        throw ex;
+        throw dropboxError(ex);
+
+    }
+}
 
+/**
+ * Create a folder. If it already exists (perhaps created by a request that
+ * failed but was then retried), that's fine.
+ */
+async function createFolder(
+    dbx: dropboxT.Dropbox, nlfOpts: nlfOptions.NonlocalforageOptions,
+    path: string
+) {
+    try {
+        await request(nlfOpts, () => dbx.filesCreateFolderV2({path}));
+    } catch (ex) {
+        if (!(ex instanceof errors.ConflictError))
+            throw ex;
+    }
+}
+
+/**
+ * Delete a file or folder. If it doesn't exist (perhaps deleted by a request
+ * that failed but was then retried), that's fine.
+ * @param dbx  Dropbox instance
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param path  Path of the file or folder
+ * @param signal  Signal to stop retrying
+ */
+async function deletePath(
+    dbx: dropboxT.Dropbox, nlfOpts: nlfOptions.NonlocalforageOptions,
+    path: string, signal?: AbortSignal
+) {
+    try {
+        await request(nlfOpts, () => dbx.filesDeleteV2({path}), signal);
+    } catch (ex) {
+        if (!(ex instanceof errors.NotFoundError))
+            throw ex;
     }
 }
 
 function iterate(
     this: LocalforageDropbox,
-    iteratorCallback: (key: string) => any,
-    successCallback: () => unknown
+    options: nlfOptions.KeysOptions | ((key: string) => any),
+    iteratorCallback?: ((key: string) => any) | (() => unknown),
+    successCallback?: () => unknown
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        const files = await dbx.filesListFolder({
-            path: this._dbx.dir
-        });
-        for (const file of files.result.entries)
-            iteratorCallback(ser.unsafeify(file.name));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        successCallback = <() => unknown> iteratorCallback;
+        iteratorCallback = options;
+        options = {};
+    }
+    const cb = <(key: string) => any> iteratorCallback;
+    const prefix = options.prefix;
+    const signal = options.signal;
+
+    return run(this._dbx.dbg, async () => {
+        let ret: any;
+        if (typeof prefix === "string") {
+            // Iterate in order over just the keys with this prefix
+            for (const key of await listKeys(this._dbx, prefix)) {
+                ret = cb(key);
+                if (ret !== void 0)
+                    break;
+            }
+        } else {
+            ret = await walk(this._dbx, [], async path => {
+                const key = await this._dbx.codec.pathToKey(path);
+                if (key !== null)
+                    return cb(key);
+            });
+        }
         if (successCallback)
             successCallback();
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+        return ret;
+    }, signal);
+}
+
+/**
+ * List every key with this prefix, in sorted order.
+ */
+async function listKeys(dbl: DropboxLocalData, prefix: string) {
+    const codec = dbl.codec;
+    const keys: string[] = [];
+    await walk(
+        dbl, await codec.prefixToDirs(prefix),
+        async path => {
+            const key = await codec.pathToKey(path);
+            if (key !== null && key.slice(0, prefix.length) === prefix)
+                keys.push(key);
+        },
+        codec.prefixToNames(prefix)
+    );
+    return keys.sort();
+}
+
+/**
+ * Get the full Dropbox path of this path in the store. Dropbox creates any
+ * missing folders when a file is uploaded, so they needn't be created here.
+ */
+function dropboxPath(dbl: DropboxLocalData, path: string[]) {
+    return [dbl.dir].concat(path).join("/");
+}
+
+/**
+ * Call this callback with the path of every file in this directory (given as
+ * a path from the store's directory) and in the directories of keys in it.
+ * If the callback returns anything other than undefined, stops and returns
+ * that value.
+ * @param dbl  Dropbox instance data
+ * @param dirs  Path of the directory
+ * @param cb  Callback for each file, with its metadata
+ * @param names  Only include files and directories (directly in this
+ *               directory) whose names start with one of these
+ */
+async function walk(
+    dbl: DropboxLocalData, dirs: string[],
+    cb: (path: string[], file: dropboxT.files.FileMetadataReference) => any,
+    names: string[] | null = null
+): Promise<any> {
+    try {
+        if (names) {
+            /* List only this directory, so as to list only the matching
+             * subdirectories */
+            const dir = dropboxPath(dbl, dirs);
+            return await listFolder(dbl.dbx, dbl.nlfOpts, dir, entry => {
+                if (!util.hasPrefix(entry.name, names))
+                    return;
+                const path = dirs.concat([entry.name]);
+                if (entry[".tag"] === "file")
+                    return cb(path, entry);
+                if (entry[".tag"] === "folder" &&
+                    dbl.codec.isDirName(entry.name))
+                    return walk(dbl, path, cb);
+            });
+        }
+
+        const dir = dropboxPath(dbl, dirs);
+        return await listFolder(dbl.dbx, dbl.nlfOpts, dir, entry => {
+            if (entry[".tag"] !== "file")
+                return;
+            const path = entry.path_display!.slice(dbl.dir.length + 1)
+                .split("/");
+            for (let i = 0; i < path.length - 1; i++) {
+                if (!dbl.codec.isDirName(path[i]))
+                    return;
+            }
+            return cb(path, entry);
+        }, true);
+    } catch (ex) {
+        // If the directory doesn't exist, it has no files
+        const err = dropboxError(ex);
+        if (err instanceof errors.NotFoundError)
+            return;
+        throw err;
+    }
+}
+
+/**
+ * Get the information on an item from its metadata.
+ */
+function fileInfo(
+    key: string, file: dropboxT.files.FileMetadata
+): util.ItemInfo {
+    const modified = Date.parse(file.server_modified);
+    return {
+        key,
+        size: file.size,
+        modified: isNaN(modified) ? null : modified,
+        revision: file.rev,
+        hash: file.content_hash || null
+    };
+}
+
+/**
+ * Download a file by path, with its revision. Returns null if the file doesn't
+ * exist.
+ * @param dbl  Dropbox instance data
+ * @param path  Path of the file
+ * @param onProgress  Function to call with the progress of the download. The
+ *                    SDK only gives the file once it's all downloaded, so this
+ *                    is only called at the start and the end.
+ * @param signal  Signal to stop waiting for the download
+ */
+async function downloadFile(
+    dbl: DropboxLocalData, path: string[],
+    onProgress: util.ProgressCallback = () => {}, signal?: AbortSignal
+) {
+    let dl: dropboxT.DropboxResponse<dropboxT.files.FileMetadata>;
+    onProgress(0, 0);
+    try {
+        dl = await request(dbl.nlfOpts, () => dbl.dbx.filesDownload({
+            path: dropboxPath(dbl, path)
+        }), signal);
+    } catch (ex) {
+        const err = dropboxError(ex);
+        if (!(err instanceof errors.NotFoundError))
+            throw err;
+        return null;
+    }
+
+    const fileBlob = <Blob> (<any> dl).result.fileBlob;
+    const data = new Uint8Array(await fileBlob.arrayBuffer());
+    onProgress(data.length, data.length);
+    return {data, rev: dl.result.rev};
+}
+
+/**
+ * Download and deserialize an item, and remember its revision. Returns null if
+ * the item doesn't exist.
+ */
+async function download(
+    dbl: DropboxLocalData, key: string, signal?: AbortSignal
+) {
+    const dl = await downloadFile(
+        dbl, await dbl.codec.keyToPath(key),
+        events.progress(dbl.events, "download-progress", key), signal
+    );
+    if (!dl) {
+        delete dbl.revs[key];
+        return null;
+    }
+
+    const value = await dbl.codec.decode(dl.data);
+    dbl.revs[key] = dl.rev;
+    return {value};
 }
 
 function getItem(
     this: LocalforageDropbox,
-    key: string, callback?: (value: any)=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | ((value: any)=>unknown),
+    callback?: (value: any)=>unknown
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dbx.dbg, async () => {
         // Try to download the file
-        let value: any = null;
-        try {
-            const dl = await dbx.filesDownload({
-                path: `${this._dbx.dir}/${ser.safeify(key)}`
-            });
-            const fileBlob = <Blob> (<any> dl).result.fileBlob;
-            const fileU8 = new Uint8Array(await fileBlob.arrayBuffer());
-            value = ser.deserialize(fileU8);
-        } catch (ex) {}
+        const dl = await download(this._dbx, key, opts.signal);
+        const value = dl ? dl.value : null;
 
-        if (callback)
-            callback(value);
+        if (cb)
+            cb(value);
 
         return value;
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    }, opts.signal);
 }
 
-function setItem(
-    this: LocalforageDropbox,
-    key: string, value: any, callback?: ()=>unknown
+/**
+ * Get the size of the chunks in which to upload large files.
+ */
+function getChunkSize(dbl: DropboxLocalData) {
+    return Math.min(dbl.nlfOpts.chunkSize || defaultChunkSize, maxChunkSize);
+}
+
+/**
+ * Upload a file. Large files are uploaded in chunks with an upload session,
+ * which, if an earlier upload of the same content to the same path didn't
+ * finish, is resumed.
+ * @param dbl  Dropbox instance data
+ * @param path  Path of the file
+ * @param data  File content
+ * @param mode  Write mode
+ * @param onProgress  Function to call with the progress of the upload, after
+ *                    each chunk
+ * @param signal  Signal to abort the upload. The SDK can't abort a request, so
+ *                this only stops the upload between chunks.
+ */
+async function upload(
+    dbl: DropboxLocalData, path: string, data: Uint8Array,
+    mode: dropboxT.files.WriteMode,
+    onProgress: util.ProgressCallback = () => {}, signal?: AbortSignal
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        // Serialize the value
-        const valSer = ser.serialize(value);
+    const chunkSize = getChunkSize(dbl);
+    onProgress(0, data.length);
+    if (data.length <= chunkSize) {
+        const res = await request(dbl.nlfOpts, () => dbl.dbx.filesUpload({
+            path, contents: data, mode, autorename: false
+        }), signal);
+        onProgress(data.length, data.length);
+        return res;
+    }
 
-        // Create the file
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        await dbx.filesUpload({
-            path: `${this._dbx.dir}/${ser.safeify(key)}`,
-            contents: valSer,
-            mode: {
-                ".tag": "overwrite"
+    const dbx = dbl.dbx;
+    const chunk = (offset: number) =>
+        data.subarray(offset, Math.min(offset + chunkSize, data.length));
+    const hash = await util.sha256(data);
+
+    let sessionId: string;
+    let offset: number;
+    const prev = dbl.uploads[path];
+    const resumed = !!prev && prev.hash === hash;
+    if (resumed) {
+        // Resume the unfinished session
+        sessionId = prev.sessionId;
+        offset = prev.offset;
+    } else {
+        // Start the session with the first chunk
+        const start = await request(dbl.nlfOpts, () => {
+            return dbx.filesUploadSessionStart({
+                close: false, contents: chunk(0)
+            });
+        }, signal);
+        sessionId = start.result.session_id;
+        offset = chunk(0).length;
+    }
+    const unfinished = dbl.uploads[path] = {sessionId, offset, hash};
+    onProgress(offset, data.length);
+
+    /* Upload the rest, retrying each chunk individually. If Dropbox received
+     * a different amount than we think, continue from where it says. */
+    while (true) {
+        util.throwIfAborted(signal);
+        const contents = chunk(offset);
+        const cursor = {session_id: sessionId, offset};
+        let res: dropboxT.DropboxResponse<dropboxT.files.FileMetadata> | null;
+        try {
+            res = await retry.retry(dbl.nlfOpts, async () => {
+                try {
+                    if (offset + contents.length >= data.length) {
+                        return await dbx.filesUploadSessionFinish({
+                            cursor,
+                            commit: {path, mode, autorename: false},
+                            contents
+                        });
+                    }
+                    await dbx.filesUploadSessionAppendV2({
+                        cursor, close: false, contents
+                    });
+                    offset += contents.length;
+                    return null;
+                } catch (ex) {
+                    const correct = correctOffset(ex);
+                    if (correct !== null) {
+                        offset = correct;
+                        return null;
+                    }
+                    throw dropboxError(ex);
+                }
+            }, signal);
+        } catch (ex) {
+            // If the resumed session has expired, start a new one
+            if (resumed && ex instanceof errors.NotFoundError) {
+                delete dbl.uploads[path];
+                return await upload(dbl, path, data, mode, onProgress, signal);
             }
+            throw ex;
+        }
+        if (res) {
+            delete dbl.uploads[path];
+            onProgress(data.length, data.length);
+            return res;
+        }
+        unfinished.offset = offset;
+        onProgress(offset, data.length);
+    }
+}
+
+/**
+ * Upload a file's content to a new upload session, and close it, so that it
+ * can be committed with filesUploadSessionFinishBatchV2. Returns the ID of the
+ * session.
+ * @param dbl  Dropbox instance data
+ * @param data  File content
+ * @param onProgress  Function to call with the progress of the upload, after
+ *                    each chunk
+ * @param signal  Signal to abort the upload between chunks
+ */
+async function uploadToSession(
+    dbl: DropboxLocalData, data: Uint8Array,
+    onProgress: util.ProgressCallback, signal?: AbortSignal
+) {
+    const chunkSize = getChunkSize(dbl);
+    const dbx = dbl.dbx;
+    const chunk = (offset: number) =>
+        data.subarray(offset, Math.min(offset + chunkSize, data.length));
+
+    // Start the session with the first chunk
+    onProgress(0, data.length);
+    let closed = data.length <= chunkSize;
+    const start = await request(dbl.nlfOpts, () => {
+        return dbx.filesUploadSessionStart({
+            close: closed, contents: chunk(0)
         });
+    }, signal);
+    const sessionId = start.result.session_id;
+    let offset = chunk(0).length;
+    onProgress(offset, data.length);
 
-        if (callback)
-            callback();
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    // Upload the rest, as in upload
+    while (!closed) {
+        util.throwIfAborted(signal);
+        const contents = chunk(offset);
+        const cursor = {session_id: sessionId, offset};
+        const close = offset + contents.length >= data.length;
+        await retry.retry(dbl.nlfOpts, async () => {
+            try {
+                await dbx.filesUploadSessionAppendV2({
+                    cursor, close, contents
+                });
+                offset += contents.length;
+                closed = close;
+            } catch (ex) {
+                const correct = correctOffset(ex);
+                if (correct === null)
+                    throw dropboxError(ex);
+                offset = correct;
+            }
+        }, signal);
+        onProgress(offset, data.length);
+    }
+    return sessionId;
 }
 
-function removeItem(
+/**
+ * If this error is from an upload session chunk with the wrong offset, get the
+ * correct offset. Otherwise, returns null.
+ */
+function correctOffset(ex: any): number | null {
+    let err = ex && ex.error && ex.error.error;
+    if (!err)
+        return null;
+    if (err[".tag"] === "lookup_failed")
+        err = err.lookup_failed;
+    if (err && err[".tag"] === "incorrect_offset" &&
+        typeof err.correct_offset === "number")
+        return err.correct_offset;
+    return null;
+}
+
+/**
+ * Get the mode in which to write this key. If we're detecting conflicts, only
+ * write over the revision we know about.
+ */
+function writeMode(
+    dbl: DropboxLocalData, key: string
+): dropboxT.files.WriteMode {
+    if (!dbl.nlfOpts.onConflict)
+        return {".tag": "overwrite"};
+    const rev = dbl.revs[key];
+    return rev ? {".tag": "update", update: rev} : {".tag": "add"};
+}
+
+/**
+ * Serialize and upload an item, resolving any conflict.
+ * @param dbl  Dropbox instance data
+ * @param key  Key of the item
+ * @param value  Value to store
+ * @param signal  Signal to abort the upload
+ * @param data  The value, already serialized
+ */
+async function store(
+    dbl: DropboxLocalData, key: string, value: any, signal?: AbortSignal,
+    data?: Uint8Array
+) {
+    const path = dropboxPath(dbl, await dbl.codec.keyToPath(key, true));
+    const onConflict = dbl.nlfOpts.onConflict;
+    while (true) {
+        // Serialize the value, unless that's been done
+        const valSer = data || await dbl.codec.encode(value, key);
+        data = void 0;
+
+        // Create the file
+        try {
+            const res = await upload(
+                dbl, path, valSer, writeMode(dbl, key),
+                events.progress(dbl.events, "upload-progress", key),
+                signal
+            );
+            dbl.revs[key] = res.result.rev;
+            break;
+        } catch (ex) {
+            const err = dropboxError(ex);
+            if (!onConflict || !(err instanceof errors.ConflictError))
+                throw err;
+        }
+
+        // Conflict, so resolve it and try again
+        dbl.events.emit("conflict", {key});
+        const remote = await download(dbl, key, signal);
+        value = await onConflict(key, value, remote ? remote.value : null);
+    }
+}
+
+function setItem(
     this: LocalforageDropbox,
-    key: string, callback?: ()=>unknown
+    key: string, value: any,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    const dbl = this._dbx;
+    const set = () => run(dbl.dbg, async () => {
+        await store(dbl, key, value, opts.signal);
+        if (cb)
+            cb();
+    }, opts.signal);
+    return events.upload(dbl.events, key, set);
+}
+
+/**
+ * Remove an item, if it exists.
+ * @param dbl  Dropbox instance data
+ * @param key  Key of the item
+ * @param signal  Signal to stop retrying. The SDK can't abort a request, so
+ *                one already sent still happens.
+ */
+async function remove(
+    dbl: DropboxLocalData, key: string, signal?: AbortSignal
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
+    delete dbl.revs[key];
+    // Not existing is the same as being removed
+    const path = await dbl.codec.keyToPath(key);
+    await deletePath(dbl.dbx, dbl.nlfOpts, dropboxPath(dbl, path), signal);
+    await pruneDirs(dbl, path);
+    await dbl.codec.removed(key);
+}
+
+/**
+ * Remove the directories containing this file, innermost first, for as long
+ * as they're empty. Deleting a folder deletes everything in it, so each is
+ * listed first.
+ */
+async function pruneDirs(dbl: DropboxLocalData, path: string[]) {
+    for (let end = path.length - 1; end > 0; end--) {
+        const dir = dropboxPath(dbl, path.slice(0, end));
         try {
-            await dbx.filesDeleteV2({
-                path: `${this._dbx.dir}/${ser.safeify(key)}`
+            if (await listFolder(dbl.dbx, dbl.nlfOpts, dir, () => true))
+                return;
+        } catch (ex) {
+            if (!(ex instanceof errors.NotFoundError))
+                throw ex;
+            continue;
+        }
+        await deletePath(dbl.dbx, dbl.nlfOpts, dir);
+    }
+}
+
+/**
+ * Delete these files with a batch request, and wait for it to finish. Returns
+ * the result for each file.
+ * @param dbl  Dropbox instance data
+ * @param paths  Paths of the files
+ * @param signal  Signal to stop waiting
+ */
+async function deleteBatch(
+    dbl: DropboxLocalData, paths: string[], signal?: AbortSignal
+) {
+    const launch = (await request(dbl.nlfOpts, () => {
+        return dbl.dbx.filesDeleteBatch({
+            entries: paths.map(path => ({path}))
+        });
+    }, signal)).result;
+    let status: any = launch;
+    while (status[".tag"] !== "complete") {
+        if (status[".tag"] === "failed")
+            throw batchError(status.failed);
+        if (status[".tag"] !== "async_job_id" &&
+            status[".tag"] !== "in_progress") {
+            throw new errors.NonlocalForageError(
+                `Unexpected batch status ${status[".tag"]}`
+            );
+        }
+        await util.abortable(
+            new Promise(res => setTimeout(res, batchPollDelay)), signal
+        );
+        status = (await request(dbl.nlfOpts, () => {
+            return dbl.dbx.filesDeleteBatchCheck({
+                async_job_id: (<any> launch).async_job_id
             });
-        } catch (ex) {}
-        if (callback)
-            callback();
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+        }, signal)).result;
+    }
+    return <dropboxT.files.DeleteBatchResultEntry[]> status.entries;
+}
+
+function removeItem(
+    this: LocalforageDropbox,
+    key: string,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dbx.dbg, async () => {
+        await remove(this._dbx, key, opts.signal);
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function clear(
     this: LocalforageDropbox,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
     callback?: ()=>unknown
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        await dbx.filesDeleteV2({
-            path: this._dbx.dir
-        });
-        await dbx.filesCreateFolderV2({
-            path: this._dbx.dir
-        });
-        if (callback)
-            callback();
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dbx.dbg, async () => {
+        const dbl = this._dbx;
+        dbl.revs = Object.create(null);
+        dbl.codec.clear();
+        await deletePath(dbl.dbx, dbl.nlfOpts, dbl.dir);
+        await createFolder(dbl.dbx, dbl.nlfOpts, dbl.dir);
+        await dbl.codec.checkKey();
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function length(
     this: LocalforageDropbox,
+    options?: nlfOptions.OperationOptions | ((len: number)=>unknown),
     callback?: (len: number)=>unknown
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        const files = await dbx.filesListFolder({
-            path: this._dbx.dir
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dbx.dbg, async () => {
+        let len = 0;
+        await walk(this._dbx, [], path => {
+            if (this._dbx.codec.isKeyPath(path))
+                len++;
         });
-        if (callback)
-            callback(files.result.entries.length);
-        return files.result.entries.length;
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+        if (cb)
+            cb(len);
+        return len;
+    }, opts.signal);
 }
 
 async function key(
     this: LocalforageDropbox,
-    index: number, callback?: (key: string)=>unknown
+    index: number,
+    options?: nlfOptions.OperationOptions | ((key: string)=>unknown),
+    callback?: (key: string)=>unknown
 ) {
-    const key = (await keys.call(this))[index];
+    const [opts, cb] = util.operationArgs(options, callback);
+    const key = (await keys.call(this, {signal: opts.signal}))[index];
     if (key) {
-        if (callback)
-            callback(key);
+        if (cb)
+            cb(key);
         return key;
     }
     throw new Error("Key does not exist");
 }
 
+function getItemInfo(
+    this: LocalforageDropbox,
+    key: string,
+    options?: nlfOptions.OperationOptions |
+        ((info: util.ItemInfo | null)=>unknown),
+    callback?: (info: util.ItemInfo | null)=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dbx.dbg, async () => {
+        const dbl = this._dbx;
+        let info: util.ItemInfo | null = null;
+        try {
+            const path = dropboxPath(dbl, await dbl.codec.keyToPath(key));
+            const md = await request(
+                dbl.nlfOpts, () => dbl.dbx.filesGetMetadata({path})
+            );
+            if (md.result[".tag"] === "file")
+                info = fileInfo(key, md.result);
+        } catch (ex) {
+            const err = dropboxError(ex);
+            if (!(err instanceof errors.NotFoundError))
+                throw err;
+        }
+        if (cb)
+            cb(info);
+        return info;
+    }, opts.signal);
+}
+
+function iterateInfo(
+    this: LocalforageDropbox,
+    iteratorCallback: (info: util.ItemInfo) => any,
+    options?: nlfOptions.OperationOptions | (() => unknown),
+    successCallback?: () => unknown
+) {
+    const [opts, cb] = util.operationArgs(options, successCallback);
+    return run(this._dbx.dbg, async () => {
+        const ret = await walk(this._dbx, [], async (path, file) => {
+            const key = await this._dbx.codec.pathToKey(path);
+            if (key !== null)
+                return iteratorCallback(fileInfo(key, file));
+        });
+        if (cb)
+            cb();
+        return ret;
+    }, opts.signal);
+}
+
+/**
+ * Get the revision of this item as of the last time this instance read or
+ * wrote it, from the same request as the value, or null if it isn't known.
+ * This makes no request, so the item may have changed since.
+ */
+function knownRevision(
+    this: LocalforageDropbox, key: string
+): string | null {
+    const revs = this._dbx.revs;
+    return (key in revs) ? revs[key] : null;
+}
+
 function keys(
     this: LocalforageDropbox,
+    options?: nlfOptions.KeysOptions | ((keys: string[])=>unknown),
     callback?: (keys: string[])=>unknown
 ) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        const files = await dbx.filesListFolder({
-            path: this._dbx.dir
-        });
-        const keys = files.result.entries.map(x => ser.unsafeify(x.name));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        callback = options;
+        options = void 0;
+    }
+    const prefix = (options && options.prefix) || "";
+    const signal = options && options.signal;
+
+    return run(this._dbx.dbg, async () => {
+        const keys = await listKeys(this._dbx, prefix);
         if (callback)
             callback(keys);
         return keys;
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    }, signal);
+}
+
+function keysWithPrefix(
+    this: LocalforageDropbox,
+    prefix: string,
+    options?: nlfOptions.OperationOptions | ((keys: string[])=>unknown),
+    callback?: (keys: string[])=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return keys.call(this, {prefix, signal: opts.signal}, cb);
 }
 
 function dropInstance(
     this: LocalforageDropbox,
-    options?: {name?: string, storeName?: string},
+    options?: {name?: string, storeName?: string, signal?: AbortSignal},
     callback?: () => unknown
 ) {
     if (typeof options === "function") {
@@ -367,32 +1187,327 @@ function dropInstance(
         options = void 0;
     }
 
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
+    return run(this._dbx.dbg, async () => {
         // Figure out which directory to delete
         const toDelete = util.dropInstanceDirectory(this._dbx.dir, options);
 
-        const dbx = <dropboxT.Dropbox> this._dbx.dbx;
-        await dbx.filesDeleteV2({
-            path: toDelete
-        });
+        await deletePath(this._dbx.dbx, this._dbx.nlfOpts, toDelete);
+        if (toDelete === this._dbx.dir)
+            this._dbx.unforward();
 
         if (callback)
             callback();
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    }, options && options.signal);
 }
 
-async function storageEstimate(this: LocalforageDropbox) {
-    const p = this._dbx.dbg.promise.catch(console.error).then(async () => {
-        const usage = await this._dbx.dbx.usersGetSpaceUsage();
+async function storageEstimate(
+    this: LocalforageDropbox,
+    options: nlfOptions.OperationOptions = {}
+) {
+    return run(this._dbx.dbg, async () => {
+        const dbl = this._dbx;
+        const usage = await request(
+            dbl.nlfOpts, () => dbl.dbx.usersGetSpaceUsage()
+        );
         return {
             quota: (<any> usage.result.allocation).allocated,
             usage: usage.result.used
         };
-    });
-    this._dbx.dbg.promise = p;
-    return p;
+    }, options.signal);
+}
+
+/**
+ * Perform a bulk operation a group of keys at a time, each group as its own
+ * operation in the account's queue, so that other operations can run in
+ * between instead of waiting for the whole bulk operation. Returns the results
+ * of all the groups, in order.
+ * @param dbl  Dropbox instance data
+ * @param items  Keys or items to work on
+ * @param size  Number of keys in each group
+ * @param fn  Function to perform the operation on one group
+ * @param signal  Signal to stop before the next group
+ */
+async function runGroups<T>(
+    dbl: DropboxLocalData, items: T[], size: number,
+    fn: (group: T[]) => Promise<util.BulkResult[]>, signal?: AbortSignal
+) {
+    let results: util.BulkResult[] = [];
+    for (let i = 0; i < items.length; i += size) {
+        const group = items.slice(i, i + size);
+        results = results.concat(await run(dbl.dbg, () => fn(group), signal));
+    }
+    return results;
+}
+
+/**
+ * Get the number of keys to read or write at once in a bulk operation.
+ */
+function bulkSize(dbl: DropboxLocalData) {
+    return Math.min(
+        Math.max(dbl.nlfOpts.bulkConcurrency || defaultBulkConcurrency, 1),
+        maxBatchSize
+    );
+}
+
+async function getItems(
+    this: LocalforageDropbox,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const dbl = this._dbx;
+    const [opts, cb] = util.operationArgs(options, callback);
+    const signal = opts.signal;
+
+    // Dropbox has no batch download, so download in parallel
+    const results = await runGroups(dbl, keys, bulkSize(dbl), group => {
+        return util.bulk(
+            group, group.length,
+            key => attempt(dbl.dbg, async () => {
+                const dl = await download(dbl, key, signal);
+                return dl ? dl.value : null;
+            })
+        );
+    }, signal);
+    if (cb)
+        cb(results);
+    return results;
+}
+
+/**
+ * Write these items at once. Those small enough to upload in one request are
+ * each uploaded with filesUpload, and larger ones are uploaded to upload
+ * sessions, which are then committed together.
+ * @param dbl  Dropbox instance data
+ * @param items  Items to write
+ * @param signal  Signal to abort the writes
+ */
+async function writeItems(
+    dbl: DropboxLocalData, items: util.BulkItem[], signal?: AbortSignal
+) {
+    const keys = items.map(x => x.key);
+    const entries: dropboxT.files.UploadSessionFinishArg[] = [];
+    const sessions: number[] = [];
+    const results = await util.bulk(
+        keys, keys.length,
+        (key, idx) => attempt(dbl.dbg, async () => {
+            dbl.events.emit("upload-start", {key});
+            const value = items[idx].value;
+            const data = await dbl.codec.encode(value, key);
+            if (data.length <= getChunkSize(dbl)) {
+                await store(dbl, key, value, signal, data);
+                return;
+            }
+
+            const path = await dbl.codec.keyToPath(key, true);
+            const sessionId = await uploadToSession(
+                dbl, data,
+                events.progress(dbl.events, "upload-progress", key),
+                signal
+            );
+            entries[idx] = {
+                cursor: {session_id: sessionId, offset: data.length},
+                commit: {
+                    path: dropboxPath(dbl, path),
+                    mode: writeMode(dbl, key),
+                    autorename: false
+                }
+            };
+            sessions.push(idx);
+        })
+    );
+
+    // Commit those uploaded to sessions together
+    const failed: number[] = [];
+    if (sessions.length) {
+        try {
+            /* Not retried as a whole, since a retry could fail for entries
+             * that the first try committed. Instead, if it fails
+             * transiently, each is written again by itself. */
+            const res = await attempt(dbl.dbg, () => {
+                return dbl.dbx.filesUploadSessionFinishBatchV2({
+                    entries: sessions.map(idx => entries[idx])
+                });
+            });
+            res.result.entries.forEach((entry, j) => {
+                const idx = sessions[j];
+                if (entry[".tag"] === "success") {
+                    dbl.revs[keys[idx]] = entry.rev;
+                } else {
+                    results[idx].error = batchError(entry.failure);
+                    failed.push(idx);
+                }
+            });
+        } catch (ex) {
+            for (const idx of sessions) {
+                results[idx].error = ex;
+                failed.push(idx);
+            }
+        }
+    }
+
+    /* Write those that failed because of a conflict (to resolve it) or
+     * transiently one by one */
+    for (const idx of failed) {
+        const key = keys[idx];
+        const err = results[idx].error;
+        const conflict = dbl.nlfOpts.onConflict &&
+            err instanceof errors.ConflictError;
+        if (!conflict && !retry.isTransient(err)) {
+            events.error(dbl.dbg.events, err);
+            continue;
+        }
+        try {
+            await attempt(dbl.dbg, () => {
+                return store(dbl, key, items[idx].value, signal);
+            });
+            delete results[idx].error;
+        } catch (ex) {
+            results[idx].error = ex;
+        }
+    }
+
+    for (const result of results) {
+        if (result.error) {
+            dbl.events.emit("upload-error", {
+                key: result.key, error: result.error
+            });
+        } else {
+            dbl.events.emit("upload-complete", {key: result.key});
+        }
+    }
+    return results;
+}
+
+async function setItems(
+    this: LocalforageDropbox,
+    items: util.BulkItem[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const dbl = this._dbx;
+    const [opts, cb] = util.operationArgs(options, callback);
+    const signal = opts.signal;
+    const results = await runGroups(
+        dbl, items, bulkSize(dbl),
+        group => writeItems(dbl, group, signal), signal
+    );
+    if (cb)
+        cb(results);
+    return results;
+}
+
+/**
+ * Remove these items with a batch request. Returns the result for each.
+ * @param dbl  Dropbox instance data
+ * @param keys  Keys of the items
+ * @param signal  Signal to stop waiting for the batch
+ */
+async function removeBatch(
+    dbl: DropboxLocalData, keys: string[], signal?: AbortSignal
+) {
+    const results: util.BulkResult[] = keys.map(key => ({key}));
+    const keyPaths: string[][] = [];
+    for (const key of keys) {
+        delete dbl.revs[key];
+        keyPaths.push(await dbl.codec.keyToPath(key));
+    }
+
+    let entries: dropboxT.files.DeleteBatchResultEntry[];
+    try {
+        entries = await attempt(dbl.dbg, () => {
+            return deleteBatch(
+                dbl, keyPaths.map(path => dropboxPath(dbl, path)), signal
+            );
+        });
+    } catch (ex) {
+        for (const result of results)
+            result.error = ex;
+        return results;
+    }
+
+    /* Items removed by themselves after failing in the batch, which remove
+     * has already pruned and forgotten */
+    const removedAlone: Record<number, boolean> = Object.create(null);
+    for (let idx = 0; idx < keys.length; idx++) {
+        const entry = entries[idx];
+        if (entry[".tag"] === "success")
+            continue;
+
+        // Not existing is the same as being removed
+        const err = batchError(entry.failure);
+        if (err instanceof errors.NotFoundError)
+            continue;
+
+        // Try again by itself if it failed transiently
+        if (!retry.isTransient(err)) {
+            events.error(dbl.dbg.events, err);
+            results[idx].error = err;
+            continue;
+        }
+        try {
+            await attempt(dbl.dbg, () => remove(dbl, keys[idx], signal));
+            removedAlone[idx] = true;
+        } catch (ex) {
+            results[idx].error = ex;
+        }
+    }
+
+    // Prune each directory that lost files once
+    const pruned: Record<string, boolean> = Object.create(null);
+    for (let idx = 0; idx < keys.length; idx++) {
+        const result = results[idx];
+        if (result.error || removedAlone[idx])
+            continue;
+        const path = keyPaths[idx];
+        const dir = path.slice(0, path.length - 1).join("/");
+        if (path.length > 1 && !pruned[dir]) {
+            pruned[dir] = true;
+            try {
+                await attempt(dbl.dbg, () => pruneDirs(dbl, path));
+            } catch (ex) {
+                result.error = ex;
+                continue;
+            }
+        }
+        await dbl.codec.removed(result.key);
+    }
+    return results;
+}
+
+async function removeItems(
+    this: LocalforageDropbox,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const dbl = this._dbx;
+    const [opts, cb] = util.operationArgs(options, callback);
+    const signal = opts.signal;
+    const results = await runGroups(
+        dbl, keys, maxBatchSize,
+        group => removeBatch(dbl, group, signal), signal
+    );
+    if (cb)
+        cb(results);
+    return results;
+}
+
+function addEventListener<K extends keyof events.EventMap>(
+    this: LocalforageDropbox,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).addEventListener(type, listener);
+}
+
+function removeEventListener<K extends keyof events.EventMap>(
+    this: LocalforageDropbox,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).removeEventListener(type, listener);
 }
 
 export const dropboxLocalForage = {
@@ -408,5 +1523,14 @@ export const dropboxLocalForage = {
     key,
     keys,
     dropInstance,
-    storageEstimate
+    storageEstimate,
+    keysWithPrefix,
+    getItemInfo,
+    iterateInfo,
+    addEventListener,
+    removeEventListener,
+    getItems,
+    setItems,
+    removeItems,
+    knownRevision
 };
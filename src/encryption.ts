@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as errors from "./errors";
+import * as util from "./util";
+
+/**
+ * Options for client-side encryption.
+ */
+export interface EncryptionOptions {
+    /**
+     * Passphrase from which to derive the key. Either this or key must be set.
+     */
+    passphrase?: string;
+
+    /**
+     * Key to use, instead of a passphrase. Either an HKDF key with the
+     * deriveKey usage, from which the content and key name keys are derived,
+     * or an AES-GCM key to encrypt content with directly. An AES-GCM key must
+     * be extractable, as the key for key names is derived from its bytes; an
+     * HKDF key needn't be.
+     */
+    key?: CryptoKey;
+
+    /**
+     * Salt for deriving a key from a passphrase. Defaults to the store's
+     * directory, so each store has a different key.
+     */
+    salt?: string;
+
+    /**
+     * Number of PBKDF2 iterations for deriving a key from a passphrase.
+     * Defaults to 600000.
+     */
+    iterations?: number;
+
+    /**
+     * Encrypt the keys as well, so that they don't appear in filenames.
+     */
+    encryptKeys?: boolean;
+}
+
+// Encrypted data starts with "NLFE"
+const magic = [0x4E, 0x4C, 0x46, 0x45];
+const ivLength = 12;
+const defaultIterations = 600000;
+
+// HKDF info for each key derived from the passphrase (or given key)
+const contentKeyInfo = "nonlocalForage content key";
+const nameKeyInfo = "nonlocalForage name key";
+
+/**
+ * Client-side encryption of values and keys with AES-GCM. Values are
+ * encrypted with a random IV. Keys are encrypted deterministically, with an IV
+ * derived from the key by HMAC, so that the same key always has the same
+ * filename.
+ */
+export class Encryption {
+    constructor(
+        /**
+         * Key for encrypting content.
+         */
+        public key: CryptoKey,
+
+        /**
+         * HMAC key for deriving IVs for key names.
+         */
+        public nameKey: CryptoKey,
+
+        /**
+         * Whether to encrypt key names.
+         */
+        public encryptKeys: boolean
+    ) {}
+
+    /**
+     * Create an encryption instance from these options.
+     * @param opts  Encryption options
+     * @param defaultSalt  Salt to use if none is given
+     */
+    static async create(opts: EncryptionOptions, defaultSalt: string) {
+        const te = new TextEncoder();
+
+        // Get the HKDF key from which to derive the keys
+        let hkdf: CryptoKey;
+        let key: CryptoKey | null = null;
+        if (opts.key && opts.key.algorithm.name === "HKDF") {
+            // Both keys are derived from it, so it needn't be extractable
+            if (opts.key.usages.indexOf("deriveKey") < 0) {
+                throw new Error(
+                    "An HKDF encryption key must have the deriveKey usage"
+                );
+            }
+            hkdf = opts.key;
+
+        } else {
+            let secret: ArrayBuffer;
+            if (opts.key) {
+                // Content is encrypted with the key itself
+                key = opts.key;
+                if (!opts.key.extractable) {
+                    throw new Error(
+                        "An AES-GCM encryption key must be extractable, to " +
+                        "derive the key for key names. Use a non-extractable " +
+                        "HKDF key with the deriveKey usage instead to keep " +
+                        "the key unextractable."
+                    );
+                }
+                secret = await crypto.subtle.exportKey("raw", opts.key);
+            } else {
+                if (!opts.passphrase)
+                    throw new Error("Encryption requires a passphrase or key");
+                const base = await crypto.subtle.importKey(
+                    "raw", te.encode(opts.passphrase), "PBKDF2", false,
+                    ["deriveBits"]
+                );
+                secret = await crypto.subtle.deriveBits({
+                    name: "PBKDF2",
+                    hash: "SHA-256",
+                    salt: te.encode(opts.salt || defaultSalt),
+                    iterations: opts.iterations || defaultIterations
+                }, base, 256);
+            }
+            hkdf = await crypto.subtle.importKey(
+                "raw", secret, "HKDF", false, ["deriveKey"]
+            );
+        }
+
+        // Derive separate keys for content and for key names with HKDF
+        const hkdfParams = (info: string) => ({
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(0),
+            info: te.encode(info)
+        });
+        if (!key) {
+            key = await crypto.subtle.deriveKey(
+                hkdfParams(contentKeyInfo), hkdf,
+                {name: "AES-GCM", length: 256}, false, ["encrypt", "decrypt"]
+            );
+        }
+        const nameKey = await crypto.subtle.deriveKey(
+            hkdfParams(nameKeyInfo), hkdf,
+            {name: "HMAC", hash: "SHA-256", length: 256}, false, ["sign"]
+        );
+
+        return new Encryption(key, nameKey, !!opts.encryptKeys);
+    }
+
+    /**
+     * Is this data encrypted?
+     */
+    static isEncrypted(data: Uint8Array) {
+        if (data.length < magic.length)
+            return false;
+        for (let i = 0; i < magic.length; i++) {
+            if (data[i] !== magic[i])
+                return false;
+        }
+        return true;
+    }
+
+    /**
+     * Encrypt this data.
+     */
+    async encrypt(data: Uint8Array) {
+        const iv = crypto.getRandomValues(new Uint8Array(ivLength));
+        const ct = new Uint8Array(await crypto.subtle.encrypt(
+            {name: "AES-GCM", iv}, this.key, <BufferSource> data
+        ));
+        const ret = new Uint8Array(magic.length + ivLength + ct.length);
+        ret.set(magic, 0);
+        ret.set(iv, magic.length);
+        ret.set(ct, magic.length + ivLength);
+        return ret;
+    }
+
+    /**
+     * Decrypt this data, which must have been encrypted by encrypt.
+     */
+    async decrypt(data: Uint8Array) {
+        const iv = data.subarray(magic.length, magic.length + ivLength);
+        const ct = data.subarray(magic.length + ivLength);
+        return await this._decrypt(iv, ct);
+    }
+
+    /**
+     * Encrypt a key name, to a string that is safe as a filename.
+     */
+    async encryptName(name: string) {
+        const nameU8 = new TextEncoder().encode(name);
+        const iv = new Uint8Array(await crypto.subtle.sign(
+            "HMAC", this.nameKey, nameU8
+        )).subarray(0, ivLength);
+        const ct = new Uint8Array(await crypto.subtle.encrypt(
+            {name: "AES-GCM", iv}, this.key, nameU8
+        ));
+        return util.toHex(iv) + util.toHex(ct);
+    }
+
+    /**
+     * Decrypt a key name encrypted by encryptName.
+     */
+    async decryptName(encrypted: string) {
+        const data = util.fromHex(encrypted);
+        const iv = data.subarray(0, ivLength);
+        const ct = data.subarray(ivLength);
+        return new TextDecoder().decode(await this._decrypt(iv, ct));
+    }
+
+    /**
+     * Hash a key name with HMAC, for a filename that can't be reversed or
+     * guessed without the key.
+     */
+    async hashName(name: string) {
+        return util.toHex(new Uint8Array(await crypto.subtle.sign(
+            "HMAC", this.nameKey, new TextEncoder().encode(name)
+        )));
+    }
+
+    /**
+     * Decrypt, raising an EncryptionKeyError if the data fails to
+     * authenticate.
+     */
+    private async _decrypt(iv: Uint8Array, ct: Uint8Array) {
+        try {
+            return new Uint8Array(await crypto.subtle.decrypt(
+                {name: "AES-GCM", iv: <BufferSource> iv}, this.key,
+                <BufferSource> ct
+            ));
+        } catch (ex) {
+            throw new errors.EncryptionKeyError(
+                "Decryption failed: wrong key, or corrupt data", ex
+            );
+        }
+    }
+}
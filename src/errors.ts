@@ -0,0 +1,192 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+/**
+ * Base class of all errors raised by nonlocalForage backends.
+ */
+export class NonlocalForageError extends Error {
+    constructor(
+        message: string,
+
+        /**
+         * The original error from the backend, if any.
+         */
+        public cause?: any,
+
+        /**
+         * HTTP status of the failed request, if applicable.
+         */
+        public status?: number
+    ) {
+        super(message);
+        // Needed for instanceof to work when targeting ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "NonlocalForageError";
+    }
+}
+
+/**
+ * The requested file or directory does not exist.
+ */
+export class NotFoundError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "NotFoundError";
+    }
+}
+
+/**
+ * Authentication failed or expired, or permission was denied.
+ */
+export class AuthError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "AuthError";
+    }
+}
+
+/**
+ * The backend's storage quota is exhausted.
+ */
+export class QuotaError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "QuotaError";
+    }
+}
+
+/**
+ * The backend is limiting the rate of requests.
+ */
+export class RateLimitError extends NonlocalForageError {
+    constructor(
+        message: string, cause?: any, status?: number,
+
+        /**
+         * Time in milliseconds after which to retry, if the backend said.
+         */
+        public retryAfter?: number
+    ) {
+        super(message, cause, status);
+        this.name = "RateLimitError";
+    }
+}
+
+/**
+ * The backend could not be reached.
+ */
+export class NetworkError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "NetworkError";
+    }
+}
+
+/**
+ * The backend failed internally (i.e., an HTTP 5xx status).
+ */
+export class ServerError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "ServerError";
+    }
+}
+
+/**
+ * A conditional write failed because the file was changed elsewhere.
+ */
+export class ConflictError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "ConflictError";
+    }
+}
+
+/**
+ * Stored data is damaged or truncated.
+ */
+export class CorruptDataError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "CorruptDataError";
+    }
+}
+
+/**
+ * Encrypted data could not be decrypted, because the key or passphrase is
+ * wrong, or the data is corrupt.
+ */
+export class EncryptionKeyError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "EncryptionKeyError";
+    }
+}
+
+/**
+ * The store's keys were written with a different key separator (or none)
+ * than the one it was opened with.
+ */
+export class LayoutError extends NonlocalForageError {
+    constructor(message: string, cause?: any, status?: number) {
+        super(message, cause, status);
+        this.name = "LayoutError";
+    }
+}
+
+/**
+ * Parse a Retry-After header (in either delay-seconds or HTTP-date form) into
+ * milliseconds.
+ */
+export function parseRetryAfter(header: string | null | undefined) {
+    if (!header)
+        return void 0;
+    const sec = +header;
+    if (isNaN(sec)) {
+        const date = Date.parse(header);
+        if (isNaN(date))
+            return void 0;
+        return Math.max(0, date - new Date().getTime());
+    }
+    return sec * 1000;
+}
+
+/**
+ * Create an error of the appropriate type for this HTTP status.
+ * @param status  HTTP status
+ * @param message  Error message
+ * @param cause  Original error, if any
+ * @param retryAfter  Time in milliseconds after which to retry, if known
+ */
+export function fromHTTPStatus(
+    status: number, message: string, cause?: any, retryAfter?: number
+): NonlocalForageError {
+    if (status === 401 || status === 403)
+        return new AuthError(message, cause, status);
+    if (status === 404 || status === 410)
+        return new NotFoundError(message, cause, status);
+    if (status === 409 || status === 412)
+        return new ConflictError(message, cause, status);
+    if (status === 413 || status === 507)
+        return new QuotaError(message, cause, status);
+    if (status === 429)
+        return new RateLimitError(message, cause, status, retryAfter);
+    if (status === 503 && typeof retryAfter === "number")
+        return new RateLimitError(message, cause, status, retryAfter);
+    if (status >= 500)
+        return new ServerError(message, cause, status);
+    return new NonlocalForageError(message, cause, status);
+}
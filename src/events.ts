@@ -0,0 +1,230 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as errors from "./errors";
+import * as util from "./util";
+
+/**
+ * Events emitted by nonlocalForage instances, and the details they carry.
+ */
+export interface EventMap {
+    /**
+     * An upload of this key has been requested.
+     */
+    "upload-start": {key: string};
+
+    /**
+     * An upload of this key finished successfully.
+     */
+    "upload-complete": {key: string};
+
+    /**
+     * An upload of this key failed (after any retries).
+     */
+    "upload-error": {key: string, error: any};
+
+    /**
+     * Progress of an upload of this key, in bytes of stored data.
+     */
+    "upload-progress": {key: string, loaded: number, total: number};
+
+    /**
+     * Progress of a download of this key, in bytes of stored data. total is 0
+     * if the size isn't known.
+     */
+    "download-progress": {key: string, loaded: number, total: number};
+
+    /**
+     * The login token was refreshed. expiresAt is the time (as from
+     * Date.now()) when the new token expires, if known.
+     */
+    "auth-refresh": {expiresAt: number | null};
+
+    /**
+     * The user must log in (again), or grant permission, before the backend
+     * can be used. error is the error that showed this, if any.
+     */
+    "auth-required": {error: any};
+
+    /**
+     * A write to this key conflicted with a change made elsewhere, and
+     * onConflict was called to resolve it.
+     */
+    "conflict": {key: string};
+
+    /**
+     * The backend's storage quota is exhausted.
+     */
+    "quota-warning": {error: any};
+
+    /**
+     * The amount of data in cacheForage's cache that has not yet been
+     * flushed (as returned by cachedSize) changed.
+     */
+    "cached-size": {cachedSize: number};
+
+    /**
+     * Progress of cacheForage's uploads of everything pending, in bytes,
+     * since nothing was last pending. Sizes of uploads not yet started are
+     * estimated.
+     */
+    "flush-progress": {loaded: number, total: number};
+}
+
+/**
+ * An event, as passed to listeners.
+ */
+export interface NonlocalForageEvent<K extends keyof EventMap> {
+    type: K;
+    detail: EventMap[K];
+}
+
+/**
+ * A listener for an event.
+ */
+export type Listener<K extends keyof EventMap> =
+    (ev: NonlocalForageEvent<K>) => unknown;
+
+/**
+ * A target for event listeners, in the style of EventTarget.
+ */
+export class Emitter {
+    /**
+     * Call this listener whenever this event is emitted.
+     */
+    addEventListener<K extends keyof EventMap>(
+        type: K, listener: Listener<K>
+    ) {
+        const listeners = this._listeners[type] ||
+            (this._listeners[type] = []);
+        if (listeners.indexOf(listener) < 0)
+            listeners.push(listener);
+    }
+
+    /**
+     * Stop calling this listener.
+     */
+    removeEventListener<K extends keyof EventMap>(
+        type: K, listener: Listener<K>
+    ) {
+        const listeners = this._listeners[type];
+        if (!listeners)
+            return;
+        const idx = listeners.indexOf(listener);
+        if (idx >= 0)
+            listeners.splice(idx, 1);
+    }
+
+    /**
+     * Emit an event, calling every listener for it, then re-emit it from every
+     * emitter this forwards to. Errors in listeners are logged, not thrown.
+     */
+    emit<K extends keyof EventMap>(type: K, detail: EventMap[K]) {
+        const listeners = this._listeners[type];
+        if (listeners) {
+            const ev: NonlocalForageEvent<K> = {type, detail};
+            for (const listener of listeners.slice()) {
+                try {
+                    listener(ev);
+                } catch (ex) {
+                    console.error(ex);
+                }
+            }
+        }
+        for (const fwd of this._forwards.slice()) {
+            if (!fwd.types || fwd.types.indexOf(type) >= 0)
+                fwd.to.emit(type, detail);
+        }
+    }
+
+    /**
+     * Re-emit every event emitted by this emitter (e.g., for a login shared by
+     * several instances) from another, until the returned function is called.
+     * @param to  Emitter to re-emit the events from
+     * @param types  Types of events to re-emit, or null for all of them
+     */
+    forward(to: Emitter, types: (keyof EventMap)[] | null = null) {
+        const fwd = {to, types};
+        this._forwards.push(fwd);
+        return () => {
+            const idx = this._forwards.indexOf(fwd);
+            if (idx >= 0)
+                this._forwards.splice(idx, 1);
+        };
+    }
+
+    private _listeners: Record<string, Listener<any>[]> = Object.create(null);
+    private _forwards: {
+        to: Emitter, types: (keyof EventMap)[] | null
+    }[] = [];
+}
+
+/**
+ * Get the emitter for this localForage instance's events, creating it if
+ * needed. It belongs to the instance rather than to its driver's data, so
+ * listeners can be added (e.g., by cacheForage, to its nonlocal store) before
+ * the instance is set up, and hear the events of setting it up, such as
+ * auth-required, and so they stay if it's set up again.
+ */
+export function instanceEmitter(lf: any): Emitter {
+    if (!lf._nlfEvents)
+        lf._nlfEvents = new Emitter();
+    return lf._nlfEvents;
+}
+
+/**
+ * Perform this upload of a key, emitting upload-start, then upload-complete or
+ * upload-error.
+ * @param emitter  Emitter for the events
+ * @param key  Key being uploaded
+ * @param fn  Function to perform the upload
+ */
+export async function upload<T>(
+    emitter: Emitter, key: string, fn: () => Promise<T>
+): Promise<T> {
+    emitter.emit("upload-start", {key});
+    try {
+        const ret = await fn();
+        emitter.emit("upload-complete", {key});
+        return ret;
+    } catch (ex) {
+        emitter.emit("upload-error", {key, error: ex});
+        throw ex;
+    }
+}
+
+/**
+ * Get a function to report the progress of a transfer of this key as events.
+ * @param emitter  Emitter for the events
+ * @param type  Type of event
+ * @param key  Key being transferred
+ */
+export function progress(
+    emitter: Emitter, type: "upload-progress" | "download-progress",
+    key: string
+): util.ProgressCallback {
+    return (loaded, total) => emitter.emit(type, {key, loaded, total});
+}
+
+/**
+ * Emit the event, if any, that this error from the backend warrants.
+ */
+export function error(emitter: Emitter, ex: any) {
+    if (ex instanceof errors.AuthError)
+        emitter.emit("auth-required", {error: ex});
+    else if (ex instanceof errors.QuotaError)
+        emitter.emit("quota-warning", {error: ex});
+}
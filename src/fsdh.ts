@@ -16,29 +16,101 @@
 
 import type * as localforageT from "localforage";
 
+import * as codec from "./codec";
+import * as errors from "./errors";
+import * as events from "./events";
 import * as nlfOptions from "./nlf-options";
-import * as ser from "./serializer";
 import * as util from "./util";
 
 export interface FSDHData {
     promise: Promise<unknown>;
+    nlfOpts: nlfOptions.NonlocalforageOptions;
+    codec: codec.Codec;
     root: FileSystemDirectoryHandle,
     path: string,
     dir: FileSystemDirectoryHandle & {
         keys: ()=>AsyncIterator<string>
-    }
+    },
+
+    /**
+     * Modification time of each file as last read or written by this
+     * instance, for conflict detection and knownRevision.
+     */
+    mtimes: Record<string, number>,
+
+    /**
+     * Listeners for this instance's events.
+     */
+    events: events.Emitter
 }
 
 type LocalforageFSDH = typeof localforageT & {
     _fsdh: FSDHData;
 };
 
+// Size of the pieces in which to write files, so as to report progress
+const writeChunkSize = 1024 * 1024;
+
+/**
+ * Convert an error from the file system API into an error of the appropriate
+ * type. Other errors are returned unchanged.
+ */
+function fsdhError(ex: any): any {
+    if (ex instanceof errors.NonlocalForageError)
+        return ex;
+    if (!ex || typeof ex.name !== "string")
+        return ex;
+    switch (ex.name) {
+        case "NotFoundError":
+            return new errors.NotFoundError(ex.message, ex);
+
+        case "NotAllowedError":
+        case "SecurityError":
+            return new errors.AuthError(ex.message, ex);
+
+        case "QuotaExceededError":
+            return new errors.QuotaError(ex.message, ex);
+
+        case "NoModificationAllowedError":
+            return new errors.ConflictError(ex.message, ex);
+    }
+    return ex;
+}
+
+/**
+ * Perform this operation (or this part of a bulk operation), converting any
+ * errors it raises (and emitting any events they warrant). Local file system
+ * errors are never transient, so nothing is retried.
+ */
+async function attempt<T>(fsdh: FSDHData, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn();
+    } catch (ex) {
+        const err = fsdhError(ex);
+        events.error(fsdh.events, err);
+        throw err;
+    }
+}
+
+/**
+ * Run this operation on the request queue, with attempt. If the signal is
+ * aborted before the operation starts, it's skipped.
+ */
+function run<T>(
+    fsdh: FSDHData, fn: () => Promise<T>, signal?: AbortSignal
+): Promise<T> {
+    const q = util.queue(fsdh.promise, () => attempt(fsdh, fn), signal);
+    fsdh.promise = q.queue;
+    return q.promise;
+}
+
 async function _initStorage(
     this: LocalforageFSDH,
     options: any
 ) {
     try {
-        const nlfOpts: nlfOptions.NonlocalforageOptions = options.nonlocalforage;
+        const nlfOpts: nlfOptions.NonlocalforageOptions =
+            options.nonlocalforage || {};
         let dir: FileSystemDirectoryHandle = options.directoryHandle;
 
         // Create the store path
@@ -48,106 +120,382 @@ async function _initStorage(
 
         this._fsdh = {
             promise: Promise.all([]),
+            nlfOpts,
+            codec: await codec.Codec.create(options, {
+                read: async path => {
+                    const file = await getFile(this._fsdh, path);
+                    return file
+                        ? new Uint8Array(await file.arrayBuffer())
+                        : null;
+                },
+                write: async (path, data) => {
+                    await writeFile(this._fsdh, path, data);
+                },
+                list: async () => {
+                    const names: string[] = [];
+                    const it = (<any> dir).values();
+                    while (true) {
+                        const entry = await it.next();
+                        if (entry.done) break;
+                        if (entry.value.kind === "file")
+                            names.push(entry.value.name);
+                    }
+                    return names;
+                },
+                remove: async path => {
+                    await removeFile(this._fsdh, path);
+                }
+            }),
             root: options.directoryHandle,
             path,
-            dir: <any> dir
+            dir: <any> dir,
+            mtimes: Object.create(null),
+            events: events.instanceEmitter(this)
         };
+        await this._fsdh.codec.checkKey();
+        await this._fsdh.codec.migrate();
 
     } catch (ex: any) {
         console.error(`${ex}\n${ex.stack}`);
-        throw ex;
+        throw fsdhError(ex);
 
     }
 }
 
 function iterate(
     this: LocalforageFSDH,
-    iteratorCallback: (key: string) => any,
-    successCallback: () => unknown
+    options: nlfOptions.KeysOptions | ((key: string) => any),
+    iteratorCallback?: ((key: string) => any) | (() => unknown),
+    successCallback?: () => unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
-        const it = this._fsdh.dir.keys();
-        while (true) {
-            const file = await it.next();
-            if (file.done) break;
-            iteratorCallback(ser.unsafeify(file.value));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        successCallback = <() => unknown> iteratorCallback;
+        iteratorCallback = options;
+        options = {};
+    }
+    const cb = <(key: string) => any> iteratorCallback;
+    const prefix = options.prefix;
+    const signal = options.signal;
+
+    return run(this._fsdh, async () => {
+        let ret: any;
+        if (typeof prefix === "string") {
+            // Iterate in order over just the keys with this prefix
+            for (const key of await listKeys(this._fsdh, prefix)) {
+                ret = cb(key);
+                if (ret !== void 0)
+                    break;
+            }
+        } else {
+            ret = await walk(this._fsdh, [], async path => {
+                const key = await this._fsdh.codec.pathToKey(path);
+                if (key !== null)
+                    return cb(key);
+            });
         }
         if (successCallback)
             successCallback();
-    });
-    this._fsdh.promise = p;
-    return p;
+        return ret;
+    }, signal);
+}
+
+/**
+ * List every key with this prefix, in sorted order.
+ */
+async function listKeys(fsdh: FSDHData, prefix: string) {
+    const codec = fsdh.codec;
+    const keys: string[] = [];
+    await walk(
+        fsdh, await codec.prefixToDirs(prefix),
+        async path => {
+            const key = await codec.pathToKey(path);
+            if (key !== null && key.slice(0, prefix.length) === prefix)
+                keys.push(key);
+        },
+        codec.prefixToNames(prefix)
+    );
+    return keys.sort();
+}
+
+/**
+ * Call this callback with the path of every file in this directory (given as
+ * a path from the store's directory) and in the directories of keys in it.
+ * Stops early and returns the callback's return if it returns anything.
+ * @param fsdh  FSDH instance data
+ * @param dirs  Path of the directory
+ * @param cb  Callback for each file
+ * @param names  Only include files and directories (directly in this
+ *               directory) whose names start with one of these
+ */
+async function walk(
+    fsdh: FSDHData, dirs: string[],
+    cb: (path: string[], handle: FileSystemFileHandle) => Promise<any>,
+    names: string[] | null = null
+): Promise<any> {
+    const dir = await getDir(fsdh, dirs, false);
+    if (!dir)
+        return;
+    const it = (<any> dir).values();
+    while (true) {
+        const entry = await it.next();
+        if (entry.done) break;
+        const handle: FileSystemHandle = entry.value;
+        if (!util.hasPrefix(handle.name, names))
+            continue;
+        const path = dirs.concat([handle.name]);
+        let ret: any;
+        if (handle.kind === "directory") {
+            if (!fsdh.codec.isDirName(handle.name))
+                continue;
+            ret = await walk(fsdh, path, cb);
+        } else {
+            ret = await cb(path, <FileSystemFileHandle> handle);
+        }
+        if (ret !== void 0)
+            return ret;
+    }
+}
+
+/**
+ * Read and deserialize an item, and remember its modification time. Returns
+ * null if the item doesn't exist.
+ */
+async function read(fsdh: FSDHData, key: string, signal?: AbortSignal) {
+    const blob = await getFile(fsdh, await fsdh.codec.keyToPath(key));
+    if (!blob) {
+        delete fsdh.mtimes[key];
+        return null;
+    }
+    const value = await fsdh.codec.decode(await util.readStream(
+        <ReadableStream<Uint8Array>> blob.stream(), blob.size,
+        events.progress(fsdh.events, "download-progress", key), signal
+    ));
+    fsdh.mtimes[key] = blob.lastModified;
+    return {value};
+}
+
+/**
+ * Get a directory by path from the store's directory, or null if it doesn't
+ * exist.
+ * @param fsdh  FSDH instance data
+ * @param dirs  Path to the directory
+ * @param create  Create the directory if it doesn't exist
+ */
+async function getDir(fsdh: FSDHData, dirs: string[], create: boolean) {
+    let dir: FileSystemDirectoryHandle = fsdh.dir;
+    try {
+        for (const name of dirs)
+            dir = await dir.getDirectoryHandle(name, {create});
+    } catch (ex) {
+        const err = fsdhError(ex);
+        if (err instanceof errors.NotFoundError)
+            return null;
+        throw err;
+    }
+    return dir;
+}
+
+/**
+ * Get a file by path, or null if it doesn't exist.
+ */
+async function getFile(fsdh: FSDHData, path: string[]) {
+    const dir = await getDir(fsdh, path.slice(0, path.length - 1), false);
+    if (!dir)
+        return null;
+    try {
+        const file = await dir.getFileHandle(path[path.length - 1]);
+        return await file.getFile();
+    } catch (ex) {
+        const err = fsdhError(ex);
+        if (err instanceof errors.NotFoundError)
+            return null;
+        throw err;
+    }
+}
+
+/**
+ * Get the current modification time of an item, or null if it doesn't exist.
+ */
+async function mtime(fsdh: FSDHData, key: string) {
+    const file = await getFile(fsdh, await fsdh.codec.keyToPath(key));
+    return file ? file.lastModified : null;
+}
+
+/**
+ * Get the information on an item from its file.
+ */
+function fileInfo(key: string, file: File): util.ItemInfo {
+    return {
+        key,
+        size: file.size,
+        modified: file.lastModified,
+        revision: `${file.lastModified}`,
+        hash: null
+    };
 }
 
 function getItem(
     this: LocalforageFSDH,
-    key: string, callback?: (value: any)=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | ((value: any)=>unknown),
+    callback?: (value: any)=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._fsdh, async () => {
         // Try to fetch the file
-        let value: any = null;
-        try {
-            const file = await this._fsdh.dir.getFileHandle(
-                ser.safeify(key)
-            );
-            const blob = await file.getFile();
-            value = ser.deserialize(new Uint8Array(await blob.arrayBuffer()));
-        } catch (ex) {}
+        const rd = await read(this._fsdh, key, opts.signal);
+        const value = rd ? rd.value : null;
 
-        if (callback)
-            callback(value);
+        if (cb)
+            cb(value);
 
         return value;
-    });
-    this._fsdh.promise = p;
-    return p;
+    }, opts.signal);
+}
+
+/**
+ * Write a file by path, creating it (and its directories) if needed. Returns
+ * the file handle.
+ * @param fsdh  FSDH instance data
+ * @param path  Path of the file
+ * @param data  File content
+ * @param onProgress  Function to call with the progress of the write
+ * @param signal  Signal to abort the write
+ */
+async function writeFile(
+    fsdh: FSDHData, path: string[], data: Uint8Array,
+    onProgress: util.ProgressCallback = () => {}, signal?: AbortSignal
+) {
+    const dir = await getDir(fsdh, path.slice(0, path.length - 1), true);
+    const file = await dir!.getFileHandle(
+        path[path.length - 1], {create: true}
+    );
+    const wr = await file.createWritable();
+    onProgress(0, data.length);
+    for (let offset = 0; offset < data.length; offset += writeChunkSize) {
+        if (signal && signal.aborted) {
+            // Leave the file as it was
+            await wr.abort();
+            throw util.abortError();
+        }
+        const end = Math.min(offset + writeChunkSize, data.length);
+        await wr.write(<BufferSource> data.subarray(offset, end));
+        onProgress(end, data.length);
+    }
+    await wr.close();
+    return file;
+}
+
+/**
+ * Serialize and write an item, resolving any conflict.
+ */
+async function store(
+    fsdh: FSDHData, key: string, value: any, signal?: AbortSignal
+) {
+    const onConflict = fsdh.nlfOpts.onConflict;
+
+    // Check for conflicts
+    if (onConflict) {
+        const known = (key in fsdh.mtimes) ? fsdh.mtimes[key] : null;
+        if (await mtime(fsdh, key) !== known) {
+            fsdh.events.emit("conflict", {key});
+            const remote = await read(fsdh, key, signal);
+            value = await onConflict(key, value, remote ? remote.value : null);
+        }
+    }
+
+    // Serialize the value
+    const valSer = await fsdh.codec.encode(value, key);
+
+    // Create the file
+    const file = await writeFile(
+        fsdh, await fsdh.codec.keyToPath(key, true), valSer,
+        events.progress(fsdh.events, "upload-progress", key), signal
+    );
+    fsdh.mtimes[key] = (await file.getFile()).lastModified;
 }
 
 function setItem(
     this: LocalforageFSDH,
-    key: string, value: any, callback?: ()=>unknown
+    key: string, value: any,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
-        // Serialize the value
-        const valSer = ser.serialize(value);
-
-        // Create the file
-        const file = await this._fsdh.dir.getFileHandle(
-            ser.safeify(key),
-            {create: true}
-        );
-        const wr = await file.createWritable();
-        await wr.write(valSer);
-        await wr.close();
+    const fsdh = this._fsdh;
+    const [opts, cb] = util.operationArgs(options, callback);
+    const set = () => run(fsdh, async () => {
+        await store(fsdh, key, value, opts.signal);
+        if (cb)
+            cb();
+    }, opts.signal);
+    return events.upload(fsdh.events, key, set);
+}
 
-        if (callback)
-            callback();
-    });
-    this._fsdh.promise = p;
-    return p;
+/**
+ * Remove a file by path, if it exists.
+ */
+async function removeFile(fsdh: FSDHData, path: string[]) {
+    const dir = await getDir(fsdh, path.slice(0, path.length - 1), false);
+    try {
+        if (dir)
+            await dir.removeEntry(path[path.length - 1]);
+    } catch (ex) {
+        // Not existing is the same as being removed
+        const err = fsdhError(ex);
+        if (!(err instanceof errors.NotFoundError))
+            throw err;
+    }
+}
+
+/**
+ * Remove the directories containing this file, innermost first, for as long
+ * as they're empty.
+ */
+async function pruneDirs(fsdh: FSDHData, path: string[]) {
+    for (let end = path.length - 1; end > 0; end--) {
+        const dir = await getDir(fsdh, path.slice(0, end), false);
+        if (dir && !(await (<any> dir).keys().next()).done)
+            return;
+        await removeFile(fsdh, path.slice(0, end));
+    }
+}
+
+/**
+ * Remove an item, if it exists.
+ */
+async function remove(fsdh: FSDHData, key: string) {
+    delete fsdh.mtimes[key];
+    const path = await fsdh.codec.keyToPath(key);
+    await removeFile(fsdh, path);
+    await pruneDirs(fsdh, path);
+    await fsdh.codec.removed(key);
 }
 
 function removeItem(
     this: LocalforageFSDH,
-    key: string, callback?: ()=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
-        try {
-            await this._fsdh.dir.removeEntry(ser.safeify(key));
-        } catch (ex) {}
-        if (callback)
-            callback();
-    });
-    this._fsdh.promise = p;
-    return p;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._fsdh, async () => {
+        await remove(this._fsdh, key);
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function clear(
     this: LocalforageFSDH,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
     callback?: ()=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._fsdh, async () => {
         const dir = this._fsdh.dir;
+        this._fsdh.mtimes = Object.create(null);
+        this._fsdh.codec.clear();
         const files: string[] = [];
         const it = dir.keys();
         while (true) {
@@ -156,70 +504,131 @@ function clear(
             files.push(file.value);
         }
         for (const file of files)
-            await dir.removeEntry(file);
-        if (callback)
-            callback();
-    });
-    this._fsdh.promise = p;
-    return p;
+            await dir.removeEntry(file, {recursive: true});
+        await this._fsdh.codec.checkKey();
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function length(
     this: LocalforageFSDH,
+    options?: nlfOptions.OperationOptions | ((len: number)=>unknown),
     callback?: (len: number)=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._fsdh, async () => {
         let len = 0;
-        const it = this._fsdh.dir.keys();
-        while (true) {
-            const file = await it.next();
-            if (file.done) break;
-            len++;
-        }
-        if (callback)
-            callback(len);
+        await walk(this._fsdh, [], async path => {
+            if (this._fsdh.codec.isKeyPath(path))
+                len++;
+        });
+        if (cb)
+            cb(len);
         return len;
-    });
-    this._fsdh.promise = p;
-    return p;
+    }, opts.signal);
 }
 
 async function key(
     this: LocalforageFSDH,
-    index: number, callback?: (key: string)=>unknown
+    index: number,
+    options?: nlfOptions.OperationOptions | ((key: string)=>unknown),
+    callback?: (key: string)=>unknown
 ) {
-    const key = (await keys.call(this))[index];
+    const [opts, cb] = util.operationArgs(options, callback);
+    const key = (await keys.call(this, {signal: opts.signal}))[index];
     if (key) {
-        if (callback)
-            callback(key);
+        if (cb)
+            cb(key);
         return key;
     }
     throw new Error("Key does not exist");
 }
 
+function getItemInfo(
+    this: LocalforageFSDH,
+    key: string,
+    options?: nlfOptions.OperationOptions |
+        ((info: util.ItemInfo | null)=>unknown),
+    callback?: (info: util.ItemInfo | null)=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._fsdh, async () => {
+        const file = await getFile(
+            this._fsdh, await this._fsdh.codec.keyToPath(key)
+        );
+        const info = file ? fileInfo(key, file) : null;
+        if (cb)
+            cb(info);
+        return info;
+    }, opts.signal);
+}
+
+function iterateInfo(
+    this: LocalforageFSDH,
+    iteratorCallback: (info: util.ItemInfo) => any,
+    options?: nlfOptions.OperationOptions | (() => unknown),
+    successCallback?: () => unknown
+) {
+    const [opts, cb] = util.operationArgs(options, successCallback);
+    return run(this._fsdh, async () => {
+        const ret = await walk(this._fsdh, [], async (path, handle) => {
+            const key = await this._fsdh.codec.pathToKey(path);
+            if (key !== null)
+                return iteratorCallback(fileInfo(key, await handle.getFile()));
+        });
+        if (cb)
+            cb();
+        return ret;
+    }, opts.signal);
+}
+
+/**
+ * Get the revision of this item as of the last time this instance read or
+ * wrote it, from the same request as the value, or null if it isn't known.
+ * This makes no request, so the item may have changed since.
+ */
+function knownRevision(
+    this: LocalforageFSDH, key: string
+): string | null {
+    const mtimes = this._fsdh.mtimes;
+    return (key in mtimes) ? `${mtimes[key]}` : null;
+}
+
 function keys(
     this: LocalforageFSDH,
+    options?: nlfOptions.KeysOptions | ((keys: string[])=>unknown),
     callback?: (keys: string[])=>unknown
 ) {
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
-        const keys: string[] = [];
-        const it = this._fsdh.dir.keys();
-        while (true) {
-            const file = await it.next();
-            if (file.done) break;
-            keys.push(ser.unsafeify(file.value));
-        }
+    if (typeof options === "function") {
+        // This API was made by clowns
+        callback = options;
+        options = void 0;
+    }
+    const prefix = (options && options.prefix) || "";
+    const signal = options && options.signal;
+
+    return run(this._fsdh, async () => {
+        const keys = await listKeys(this._fsdh, prefix);
         if (callback)
             callback(keys);
         return keys;
-    });
-    this._fsdh.promise = p;
-    return p;
+    }, signal);
+}
+
+function keysWithPrefix(
+    this: LocalforageFSDH,
+    prefix: string,
+    options?: nlfOptions.OperationOptions | ((keys: string[])=>unknown),
+    callback?: (keys: string[])=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return keys.call(this, {prefix, signal: opts.signal}, cb);
 }
 
 function dropInstance(
     this: LocalforageFSDH,
-    options?: {name?: string, storeName?: string},
+    options?: {name?: string, storeName?: string, signal?: AbortSignal},
     callback?: () => unknown
 ) {
     if (typeof options === "function") {
@@ -228,7 +637,7 @@ function dropInstance(
         options = void 0;
     }
 
-    const p = this._fsdh.promise.catch(console.error).then(async () => {
+    return run(this._fsdh, async () => {
         // Figure out which directory to delete
         const toDelete = util.dropInstanceDirectory(this._fsdh.path, options);
         const pathParts = toDelete.split("/");
@@ -238,9 +647,86 @@ function dropInstance(
         await dir.removeEntry(pathParts[pathParts.length-1], {recursive: true});
         if (callback)
             callback();
-    });
-    this._fsdh.promise = p;
-    return p;
+    }, options && options.signal);
+}
+
+function getItems(
+    this: LocalforageFSDH,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const fsdh = this._fsdh;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(fsdh, async () => {
+        const results = await util.bulk(
+            keys, fsdh.nlfOpts.bulkConcurrency,
+            key => attempt(fsdh, async () => {
+                const rd = await read(fsdh, key, opts.signal);
+                return rd ? rd.value : null;
+            })
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function setItems(
+    this: LocalforageFSDH,
+    items: util.BulkItem[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const fsdh = this._fsdh;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(fsdh, async () => {
+        const results = await util.bulk(
+            items.map(x => x.key), fsdh.nlfOpts.bulkConcurrency,
+            (key, idx) => events.upload(fsdh.events, key, () => attempt(
+                fsdh, () => store(fsdh, key, items[idx].value, opts.signal)
+            ))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function removeItems(
+    this: LocalforageFSDH,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const fsdh = this._fsdh;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(fsdh, async () => {
+        const results = await util.bulk(
+            keys, fsdh.nlfOpts.bulkConcurrency,
+            key => attempt(fsdh, () => remove(fsdh, key))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function addEventListener<K extends keyof events.EventMap>(
+    this: LocalforageFSDH,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).addEventListener(type, listener);
+}
+
+function removeEventListener<K extends keyof events.EventMap>(
+    this: LocalforageFSDH,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).removeEventListener(type, listener);
 }
 
 export const fsdhLocalForage = {
@@ -258,5 +744,14 @@ export const fsdhLocalForage = {
     length,
     key,
     keys,
-    dropInstance
+    dropInstance,
+    keysWithPrefix,
+    getItemInfo,
+    iterateInfo,
+    addEventListener,
+    removeEventListener,
+    getItems,
+    setItems,
+    removeItems,
+    knownRevision
 };
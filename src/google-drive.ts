@@ -17,57 +17,405 @@
 import type * as localforageT from "localforage";
 import * as bgoauth2 from "@badgateway/oauth2-client";
 
+import * as codec from "./codec";
+import * as errors from "./errors";
+import * as events from "./events";
 import * as oauth2 from "./oauth2";
+import * as retry from "./retry";
 import * as nlfOptions from "./nlf-options";
-import * as ser from "./serializer";
 import * as util from "./util";
 
-// Why aren't these types in TypeScript???
-declare let gapi: any, google: any;
-
 const dirMime = "application/vnd.google-apps.folder";
+// Metadata to fetch for each file
+const fileFields =
+    "id, name, mimeType, version, size, modifiedTime, md5Checksum";
+const apiUrl = "https://www.googleapis.com/drive/v3";
+const uploadUrl = "https://www.googleapis.com/upload/drive/v3";
+
+// Resumable upload chunks must be a multiple of 256KiB
+const chunkGranularity = 256 * 1024;
+const defaultChunkSize = 8 * 1024 * 1024;
+
+// Options for a request that the caller retries itself
+const noRetry = <nlfOptions.NonlocalforageOptions> {retries: 0};
+
+/**
+ * A logged-in Google account. Shared by all instances using the same client
+ * ID and account.
+ */
+export interface GoogleDriveSession {
+    /**
+     * API key, if one was provided.
+     */
+    apiKey: string | null;
+
+    /**
+     * Current access token. Updated as it's refreshed.
+     */
+    accessToken: string;
 
-// Global Google Drive data
-let promise: Promise<unknown> = Promise.all([]);
-let loggedIn = false;
+    /**
+     * Email address of the account.
+     */
+    email: string;
+
+    /**
+     * Listeners for events concerning the whole account (login and quota),
+     * which are forwarded to every instance.
+     */
+    events: events.Emitter;
+}
+
+const sessionById: Record<string, Promise<GoogleDriveSession>> =
+    Object.create(null);
+
+/* Listeners for events concerning each account, by session ID. These exist
+ * before the account is logged in, so that instances can pass on the events
+ * of logging in. */
+const eventsById: Record<string, events.Emitter> = Object.create(null);
 
 export interface GoogleDriveData {
+    session: GoogleDriveSession;
+    queue: util.RequestQueue;
+    nlfOpts: nlfOptions.NonlocalforageOptions;
+    codec: codec.Codec;
     path: string;
     dirId: string;
+
+    /**
+     * Version of each file as last read or written by this instance, for
+     * conflict detection and knownRevision.
+     */
+    versions: Record<string, string>;
+
+    /**
+     * Map of keys to file IDs, filled by listings of the store's directory
+     * and kept current by this instance's own writes.
+     */
+    fileIds: Record<string, string>;
+
+    /**
+     * Listing of the whole store, which completes fileIds, so that a key
+     * missing from it doesn't exist. null until first needed.
+     */
+    listed: Promise<void> | null;
+
+    /**
+     * Map of paths (joined by "/") of directories of keys to their IDs, or
+     * null if they don't exist. Only directories that exist are remembered.
+     */
+    dirIds: Record<string, Promise<string | null>>;
+
+    /**
+     * Resumable uploads that didn't finish, by file ID (or parent ID and name,
+     * for new files), with the hash of their content, so that uploading the
+     * same content again resumes them.
+     */
+    uploads: Record<string, {uri: string, hash: string}>;
+
+    /**
+     * Listeners for this instance's events.
+     */
+    events: events.Emitter;
+
+    /**
+     * Stop passing on the account's events to this instance.
+     */
+    unforward: () => void;
 }
 
 type LocalforageGoogleDrive = typeof localforageT & {
     _gd: GoogleDriveData
 };
 
-async function fileList(dir = "root", name = "") {
+/**
+ * Perform an authenticated request to the Drive API.
+ * @param session  Session to use
+ * @param url  Full URL of the request
+ * @param params  Query parameters
+ * @param init  Other request options
+ * @param onProgress  Function to call with the progress of sending the
+ *                    request body, if it can be reported
+ */
+async function driveFetch(
+    session: GoogleDriveSession, url: string,
+    params: Record<string, string | undefined> = {},
+    init: RequestInit = {}, onProgress?: util.ProgressCallback
+) {
+    const u = new URL(url);
+    for (const name in params) {
+        const value = params[name];
+        if (typeof value === "string")
+            u.searchParams.set(name, value);
+    }
+    if (session.apiKey)
+        u.searchParams.set("key", session.apiKey);
+
+    const resp = await authFetch(session, u.toString(), init, onProgress);
+    if (resp.status < 200 || resp.status >= 300)
+        throw await driveError(resp);
+    return resp;
+}
+
+/**
+ * Perform an authenticated request to the Drive API, retrying it if it fails
+ * transiently. Only for requests that are safe to repeat.
+ * @param session  Session to use
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param url  Full URL of the request
+ * @param params  Query parameters
+ * @param init  Other request options
+ */
+function driveRequest(
+    session: GoogleDriveSession, nlfOpts: nlfOptions.NonlocalforageOptions,
+    url: string, params: Record<string, string | undefined> = {},
+    init: RequestInit = {}
+) {
+    return retry.retry(
+        nlfOpts, () => driveFetch(session, url, params, init),
+        init.signal || void 0
+    );
+}
+
+/**
+ * Perform an authenticated request, without checking the response status.
+ * @param session  Session to use
+ * @param url  Full URL of the request
+ * @param init  Other request options
+ * @param onProgress  Function to call with the progress of sending the
+ *                    request body. fetch can't report this, so if it's given,
+ *                    XMLHttpRequest is used where available.
+ */
+async function authFetch(
+    session: GoogleDriveSession, url: string, init: RequestInit = {},
+    onProgress?: util.ProgressCallback
+) {
+    const headers = new Headers(init.headers);
+    headers.set("authorization", `Bearer ${session.accessToken}`);
+    try {
+        if (onProgress && typeof XMLHttpRequest !== "undefined")
+            return await xhrFetch(url, {...init, headers}, onProgress);
+        return await fetch(url, {...init, headers});
+    } catch (ex: any) {
+        util.throwIfAborted(init.signal || void 0);
+        throw new errors.NetworkError(`${ex && ex.message || ex}`, ex);
+    }
+}
+
+/**
+ * Perform a request with XMLHttpRequest, reporting the progress of sending
+ * its body, and give the response as a Response, as fetch would.
+ * @param url  Full URL of the request
+ * @param init  Other request options
+ * @param onProgress  Function to call with the progress of sending the body
+ */
+function xhrFetch(
+    url: string, init: RequestInit & {headers: Headers},
+    onProgress: util.ProgressCallback
+) {
+    return new Promise<Response>((res, rej) => {
+        const signal = init.signal;
+        const xhr = new XMLHttpRequest();
+        const abort = () => xhr.abort();
+        xhr.open(init.method || "GET", url);
+        init.headers.forEach((value, name) => {
+            xhr.setRequestHeader(name, value);
+        });
+        xhr.responseType = "blob";
+        xhr.upload.onprogress = ev => {
+            if (ev.lengthComputable)
+                onProgress(ev.loaded, ev.total);
+        };
+        xhr.onload = () => {
+            const headers = new Headers();
+            const lines = xhr.getAllResponseHeaders().trim().split(/[\r\n]+/);
+            for (const line of lines) {
+                const idx = line.indexOf(":");
+                if (idx > 0) {
+                    headers.append(
+                        line.slice(0, idx).trim(), line.slice(idx + 1).trim()
+                    );
+                }
+            }
+            // Responses with these statuses can't have a body
+            const nullBody = [101, 103, 204, 205, 304].indexOf(xhr.status) >= 0;
+            try {
+                res(new Response(nullBody ? null : xhr.response, {
+                    status: xhr.status, statusText: xhr.statusText, headers
+                }));
+            } catch (ex) {
+                rej(ex);
+            }
+        };
+        xhr.onerror = () => rej(new TypeError("Network request failed"));
+        xhr.onabort = () => rej(new TypeError("Request aborted"));
+        xhr.onloadend = () => {
+            if (signal)
+                signal.removeEventListener("abort", abort);
+        };
+        if (signal) {
+            if (signal.aborted) {
+                rej(new TypeError("Request aborted"));
+                return;
+            }
+            signal.addEventListener("abort", abort);
+        }
+        xhr.send(<any> init.body);
+    });
+}
+
+/**
+ * Convert a failed Drive API response into an error of the appropriate type.
+ */
+async function driveError(resp: Response) {
+    const body = await resp.text();
+    let message = body;
+    let reason = "";
+    try {
+        const err = JSON.parse(body).error;
+        message = err.message || body;
+        if (err.errors && err.errors.length)
+            reason = err.errors[0].reason;
+    } catch (ex) {}
+
+    const retryAfter = errors.parseRetryAfter(resp.headers.get("retry-after"));
+    switch (reason) {
+        case "rateLimitExceeded":
+        case "userRateLimitExceeded":
+            return new errors.RateLimitError(
+                message, body, resp.status, retryAfter
+            );
+
+        case "storageQuotaExceeded":
+            return new errors.QuotaError(message, body, resp.status);
+    }
+    return errors.fromHTTPStatus(resp.status, message, body, retryAfter);
+}
+
+/**
+ * Perform this operation (or this part of a bulk operation), emitting any
+ * events its failure warrants. The operation's requests are retried
+ * individually, so the operation itself never is.
+ * @param gd  Google Drive instance data
+ * @param fn  Function to perform the operation
+ */
+async function attempt<T>(gd: GoogleDriveData, fn: () => Promise<T>) {
+    try {
+        return await fn();
+    } catch (ex) {
+        events.error(gd.session.events, ex);
+        throw ex;
+    }
+}
+
+/**
+ * Run this operation on this instance's request queue, with attempt.
+ * @param gd  Google Drive instance data
+ * @param fn  Function to perform the operation
+ * @param key  Key that the operation concerns, or null for the whole store
+ * @param signal  Signal to abort the operation
+ */
+function run<T>(
+    gd: GoogleDriveData, fn: () => Promise<T>, key: string | null = null,
+    signal?: AbortSignal
+) {
+    return gd.queue.run(() => attempt(gd, fn), key, signal);
+}
+
+/**
+ * List the files in a directory. Each page is retried individually.
+ * @param session  Session to use
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param dir  ID of the directory
+ * @param name  Only list files with this name
+ * @param names  Only list files whose names start with one of these. Drive
+ *               matches these as it sees fit, so the caller must still check
+ *               the names.
+ * @param signal  Signal to abort the listing
+ */
+async function fileList(
+    session: GoogleDriveSession, nlfOpts: nlfOptions.NonlocalforageOptions,
+    dir = "root", name = "", names: string[] | null = null,
+    signal?: AbortSignal
+) {
+    let q = `${JSON.stringify(dir)} in parents`;
+    if (name)
+        q += ` and name = ${JSON.stringify(name)}`;
+    if (names) {
+        q += " and (" + names.map(
+            x => `name contains ${JSON.stringify(x)}`
+        ).join(" or ") + ")";
+    }
+
     let files: any[] = [];
     let nextPageToken: string | undefined = void 0;
     while (true) {
         try {
-            const resp: any = await gapi.client.drive.files.list({
-                pageToken: nextPageToken,
-                fields: "files(id, name, mimeType), nextPageToken",
-                q: (`${JSON.stringify(dir)} in parents` +
-                    (name
-                        ? ` and name = ${JSON.stringify(name)}`
-                        : ""
-                    )
-                   )
-            });
-            files = files.concat(resp.result.files);
-            nextPageToken = resp.result.nextPageToken;
+            const resp = await driveRequest(
+                session, nlfOpts, `${apiUrl}/files`, {
+                    pageToken: nextPageToken,
+                    fields: `files(${fileFields}), nextPageToken`,
+                    q
+                }, {signal}
+            );
+            const result = await resp.json();
+            files = files.concat(result.files);
+            nextPageToken = result.nextPageToken;
             if (!nextPageToken)
                 break;
         } catch (ex) {
-            // FIXME: Distinguish file-not-found from real errors
-            break;
+            // If the directory itself doesn't exist, then it has no files
+            if (ex instanceof errors.NotFoundError)
+                break;
+            throw ex;
         }
     }
     return files;
 }
 
-async function logIn(options: any) {
+/**
+ * Get the name under which to store this login information in the key store.
+ * Each account has its own.
+ */
+function storageKey(options: any, name: string) {
+    const account = options.googleDrive.account;
+    return account ? `${name}-${account}` : name;
+}
+
+/**
+ * Get the ID of the session for this instance's account.
+ */
+function sessionId(options: any) {
+    return `${options.googleDrive.clientId}/${options.googleDrive.account || ""}`;
+}
+
+/**
+ * Get the emitter for events concerning this instance's account.
+ */
+function accountEvents(options: any) {
+    const id = sessionId(options);
+    let emitter = eventsById[id];
+    if (!emitter)
+        emitter = eventsById[id] = new events.Emitter();
+    return emitter;
+}
+
+/**
+ * Get the session for this instance's account, logging in if necessary.
+ */
+function getSession(options: any) {
+    const id = sessionId(options);
+    let session = sessionById[id];
+    if (!session) {
+        session = sessionById[id] = logIn(options);
+        session.catch(() => {
+            delete sessionById[id];
+        });
+    }
+    return session;
+}
+
+async function logIn(options: any): Promise<GoogleDriveSession> {
     const scope = [
         "https://www.googleapis.com/auth/drive.file",
         "https://www.googleapis.com/auth/userinfo.email"
@@ -76,10 +424,11 @@ async function logIn(options: any) {
     // Load the login hint
     let loginHint: string | null = null;
     if (options.localforage)
-        loginHint = await options.localforage.getItem("google-drive-login");
+        loginHint = await options.localforage.getItem(storageKey(options, "google-drive-login"));
 
     // General info
     const nlfOpts: nlfOptions.NonlocalforageOptions = options.nonlocalforage;
+    const emitter = accountEvents(options);
     let accessToken: string | null = null;
     let refreshToken: string | null = null;
     let expiresAt: number | null = null;
@@ -99,7 +448,7 @@ async function logIn(options: any) {
 
         // Try using a saved token
         if (options.localforage && !nlfOpts.forcePrompt)
-            refreshToken = await options.localforage.getItem("google-drive-refresh-token");
+            refreshToken = await options.localforage.getItem(storageKey(options, "google-drive-refresh-token"));
         if (refreshToken) {
             try {
                 authUrl.searchParams.set("refreshToken", refreshToken);
@@ -127,6 +476,7 @@ async function logIn(options: any) {
                 }
             });
 
+            emitter.emit("auth-required", {error: null});
             const code = (await oauth2.authWin(nlfOpts, authUrl, state)).code;
 
             // Trade it for an access token and refresh token
@@ -145,7 +495,7 @@ async function logIn(options: any) {
 
         // Save it
         if (options.localforage)
-            await options.localforage.setItem("google-drive-refresh-token", refreshToken);
+            await options.localforage.setItem(storageKey(options, "google-drive-refresh-token"), refreshToken);
 
     } else {
         // Use the implicit grant system
@@ -163,22 +513,31 @@ async function logIn(options: any) {
         else
             authUrl.searchParams.set("prompt", "select_account");
 
+        emitter.emit("auth-required", {error: null});
         const tokenInfo = await oauth2.authWin(nlfOpts, authUrl.toString(), state);
         accessToken = tokenInfo.accessToken;
         expiresAt = new Date().getTime() + (+tokenInfo.expiresIn) * 1000;
 
     }
 
-    gapi.client.setToken({access_token: accessToken});
+    const session: GoogleDriveSession = {
+        apiKey: options.googleDrive.apiKey || null,
+        accessToken: accessToken!,
+        email: "",
+        events: emitter
+    };
 
     // Save login hint
-    const userInfo = await gapi.client.oauth2.userinfo.get();
+    const userInfo = await (await driveFetch(
+        session, "https://www.googleapis.com/oauth2/v2/userinfo"
+    )).json();
+    session.email = userInfo.email;
     if (options.localforage)
-        await options.localforage.setItem("google-drive-login", userInfo.result.email);
+        await options.localforage.setItem(storageKey(options, "google-drive-login"), userInfo.email);
 
     // Handle timeout
     const timeoutRelogin = async () => {
-        promise = promise.catch(console.error).then(async () => {
+        try {
             if (options.googleDrive.codeServer) {
                 // Just refresh the existing code
                 const f = await fetch(tokenAuthUrl!.toString());
@@ -193,7 +552,7 @@ async function logIn(options: any) {
                     Math.random().toString(36) + Math.random().toString(36);
                 tokenAuthUrl!.searchParams.set("state", state);
                 tokenAuthUrl!.searchParams.set("prompt", "none");
-                tokenAuthUrl!.searchParams.set("login_hint", userInfo.result.email);
+                tokenAuthUrl!.searchParams.set("login_hint", userInfo.email);
 
                 tokenInfo = await oauth2.authWin(
                     nlfOpts, tokenAuthUrl!.toString(), state, {late: true}
@@ -203,244 +562,1037 @@ async function logIn(options: any) {
                 expiresAt = new Date().getTime() + (+tokenInfo.expiresIn) * 1000;
 
             }
-            setTimeout(timeoutRelogin, expiresAt! - new Date().getTime() - 600000);
-        });
+            session.accessToken = accessToken!;
+            emitter.emit("auth-refresh", {expiresAt});
+        } catch (ex) {
+            console.error(ex);
+            emitter.emit("auth-required", {error: ex});
+        }
+        setTimeout(timeoutRelogin, expiresAt! - new Date().getTime() - 600000);
     };
     setTimeout(timeoutRelogin, expiresAt! - new Date().getTime() - 600000);
+
+    return session;
 }
 
 async function _initStorage(
     this: LocalforageGoogleDrive,
     options: any
 ) {
-    // Load libraries
-    if (typeof gapi === "undefined")
-        await util.loadScript("https://apis.google.com/js/api.js");
-    if (!gapi.client)
-        await new Promise(res => gapi.load("client", res));
-    if (!gapi.client.drive || !gapi.client.oauth2) {
-        await gapi.client.init({
-            apiKey: options.googleDrive.apiKey,
-            discoveryDocs: [
-                "https://www.googleapis.com/discovery/v1/apis/drive/v3/rest",
-                "https://www.googleapis.com/discovery/v1/apis/oauth2/v1/rest"
-            ]
-        });
-    }
+    // Pass on the account's events, including those of logging in
+    const emitter = events.instanceEmitter(this);
+    if (this._gd)
+        this._gd.unforward();
+    const unforward = accountEvents(options).forward(emitter);
 
-    this._gd = <any> {};
+    try {
+        const nlfOpts: nlfOptions.NonlocalforageOptions =
+            options.nonlocalforage;
+        const session = await getSession(options);
 
-    if (!loggedIn) {
-        loggedIn = true;
-        try {
-            await logIn(options);
-        } catch (ex) {
-            loggedIn = false;
-            throw ex;
-        }
-    }
-
-    // Create the store path
-    const path = util.cloudDirectory(options);
-    let curDir = "root";
-    const p = promise.catch(console.error).then(async () => {
+        // Create the store path
+        const path = util.cloudDirectory(options);
+        let curDir = "root";
         for (const part of path.split("/")) {
-            const files = await fileList(curDir, part);
-            let nextDir: string | null =
-                files.length ? files[0].id : null;
+            const files = await fileList(session, nlfOpts, curDir, part);
+            let nextDir: string | null = files.length ? files[0].id : null;
 
             if (!nextDir) {
                 // Didn't find the directory, so create it
-                const resp = await gapi.client.drive.files.create({
-                    name: part,
-                    parents: [curDir],
-                    mimeType: dirMime
-                });
-                nextDir = resp.result.id;
+                nextDir = await createDir(session, nlfOpts, curDir, part);
             }
 
             curDir = nextDir!;
         }
-    });
-    promise = p;
-    await p;
-    this._gd.path = path;
-    this._gd.dirId = curDir;
+
+        this._gd = {
+            session,
+            queue: new util.RequestQueue(nlfOpts.concurrency),
+            nlfOpts,
+            codec: await codec.Codec.create(options, {
+                read: async path => {
+                    const id = await findFile(this._gd, path);
+                    if (!id)
+                        return null;
+                    try {
+                        return await readFile(this._gd, id);
+                    } catch (ex) {
+                        if (ex instanceof errors.NotFoundError)
+                            return null;
+                        throw ex;
+                    }
+                },
+                write: async (path, data) => {
+                    const gd = this._gd;
+                    const id = await findFile(gd, path);
+                    if (id) {
+                        await upload(gd, id, {}, data);
+                    } else {
+                        const parent =
+                            await getDirId(gd, path.slice(0, -1), true);
+                        await upload(gd, null, {
+                            parents: [parent],
+                            name: path[path.length - 1]
+                        }, data);
+                    }
+                },
+                list: async () => {
+                    const files = await fileList(session, nlfOpts, curDir);
+                    return files
+                        .filter(x => x.mimeType !== dirMime)
+                        .map(x => <string> x.name);
+                },
+                remove: async path => {
+                    const id = await findFile(this._gd, path);
+                    if (id)
+                        await deleteFile(this._gd, id);
+                }
+            }),
+            path,
+            dirId: curDir,
+            versions: Object.create(null),
+            fileIds: Object.create(null),
+            listed: null,
+            dirIds: Object.create(null),
+            uploads: Object.create(null),
+            events: emitter,
+            unforward
+        };
+        await this._gd.codec.checkKey();
+        await this._gd.codec.migrate();
+    } catch (ex) {
+        unforward();
+        throw ex;
+    }
+}
+
+/**
+ * Create a directory, returning its ID.
+ * @param session  Session to use
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param parent  ID of the directory in which to create it
+ * @param name  Name of the new directory
+ */
+function createDir(
+    session: GoogleDriveSession, nlfOpts: nlfOptions.NonlocalforageOptions,
+    parent: string, name: string
+) {
+    return createOnce(
+        session, nlfOpts, parent, name, true,
+        async () => {
+            const resp = await driveFetch(session, `${apiUrl}/files`, {}, {
+                method: "POST",
+                headers: {"content-type": "application/json"},
+                body: JSON.stringify({
+                    name,
+                    parents: [parent],
+                    mimeType: dirMime
+                })
+            });
+            return <string> (await resp.json()).id;
+        },
+        async file => <string> file.id
+    );
+}
+
+/**
+ * Create a file or directory, retrying if the request fails transiently. A
+ * failed request may have created it anyway, so before retrying, look for it,
+ * and if it's there, use it rather than creating a duplicate.
+ * @param session  Session to use
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param parent  ID of the directory in which to create it
+ * @param name  Name of the new file or directory
+ * @param dir  Whether it's a directory
+ * @param create  Function to create it
+ * @param found  Function to use it if it was found instead
+ * @param signal  Signal to abort the creation
+ */
+async function createOnce<T>(
+    session: GoogleDriveSession, nlfOpts: nlfOptions.NonlocalforageOptions,
+    parent: string, name: string, dir: boolean,
+    create: () => Promise<T>, found: (file: any) => Promise<T>,
+    signal?: AbortSignal
+) {
+    let tried = false;
+    return await retry.retry(nlfOpts, async () => {
+        if (tried) {
+            const files = (await fileList(session, noRetry, parent, name))
+                .filter(x => (x.mimeType === dirMime) === dir);
+            if (files.length)
+                return await found(files[0]);
+        }
+        tried = true;
+        return await create();
+    }, signal);
 }
 
 function iterate(
     this: LocalforageGoogleDrive,
-    iteratorCallback: (key: string) => any,
+    options: nlfOptions.KeysOptions | ((key: string) => any),
+    iteratorCallback?: ((key: string) => any) | (() => unknown),
     successCallback?: () => unknown
 ) {
-    const p = promise.catch(console.error).then(async () => {
-        const files = await fileList(this._gd.dirId);
-        for (const file of files) {
-            const value = await getItemById(file.id);
-            const res = iteratorCallback(ser.unsafeify(file.name));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        successCallback = <() => unknown> iteratorCallback;
+        iteratorCallback = options;
+        options = {};
+    }
+    const cb = <(key: string) => any> iteratorCallback;
+    const prefix = options.prefix;
+    const signal = options.signal;
+
+    return run(this._gd, async () => {
+        const gd = this._gd;
+        // With a prefix, iterate in order over just the keys with it
+        const items = (typeof prefix === "string")
+            ? await listPrefix(gd, prefix, signal)
+            : await listStore(gd, [], null, signal);
+        let res: any;
+        for (const item of items) {
+            res = cb(item.key);
             if (res !== void 0)
                 break;
         }
 
         if (successCallback)
             successCallback();
-    });
-    promise = p;
-    return p;
+        return res;
+    }, null, signal);
 }
 
 function getItem(
     this: LocalforageGoogleDrive,
-    key: string, callback?: (value: any)=>unknown
-) {
-    const p = promise.catch(console.error).then(async () => {
-        // Look for a connected file
-        const files = await fileList(this._gd.dirId, ser.safeify(key));
-        if (!files.length) {
-            if (callback)
-                callback(null);
+    key: string,
+    options?: nlfOptions.OperationOptions | ((value: any)=>unknown),
+    callback?: (value: any)=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._gd, async () => {
+        const value = await download(this._gd, key, opts.signal);
+        if (cb)
+            cb(value);
+        return value;
+    }, key, opts.signal);
+}
+
+/**
+ * List every item with this prefix, in order of key.
+ */
+async function listPrefix(
+    gd: GoogleDriveData, prefix: string, signal?: AbortSignal
+) {
+    const codec = gd.codec;
+    const items = await listStore(
+        gd, await codec.prefixToDirs(prefix), codec.prefixToNames(prefix),
+        signal
+    );
+    return items
+        .filter(x => x.key.slice(0, prefix.length) === prefix)
+        .sort((a, b) => (a.key < b.key) ? -1 : (a.key > b.key) ? 1 : 0);
+}
+
+/**
+ * List every item in the store, or only those in this directory of keys. The
+ * file IDs found are merged into the map of file IDs, and when listing the
+ * whole store, keys that weren't found are dropped from it.
+ * @param gd  Google Drive instance data
+ * @param dirs  Path of the directory to list
+ * @param names  Only list files and directories (directly in this directory)
+ *               whose names start with one of these
+ * @param signal  Signal to abort the listing
+ */
+async function listStore(
+    gd: GoogleDriveData, dirs: string[] = [], names: string[] | null = null,
+    signal?: AbortSignal
+) {
+    const found: Record<string, string> = Object.create(null);
+    const items: {key: string, id: string, file: any}[] = [];
+
+    const walk = async (
+        dirId: string, dirs: string[], names: string[] | null
+    ) => {
+        /* Drive matches names by word prefixes, which can match more than
+         * actual prefixes, so check the names here as well */
+        const files = await fileList(
+            gd.session, gd.nlfOpts, dirId, "", names, signal
+        );
+        for (const file of files) {
+            if (!util.hasPrefix(file.name, names))
+                continue;
+            const path = dirs.concat([file.name]);
+            if (file.mimeType === dirMime) {
+                if (!gd.codec.isDirName(file.name))
+                    continue;
+                const pathStr = path.join("/");
+                if (!(pathStr in gd.dirIds))
+                    gd.dirIds[pathStr] = Promise.resolve(<string> file.id);
+                await walk(file.id, path, null);
+                continue;
+            }
+
+            const key = await gd.codec.pathToKey(path);
+            if (key === null || key in found)
+                continue;
+            found[key] = file.id;
+            items.push({key, id: file.id, file});
+        }
+    };
+
+    const dirId = await getDirId(gd, dirs);
+    if (dirId)
+        await walk(dirId, dirs, names);
+    if (!dirs.length && !names) {
+        for (const key in gd.fileIds) {
+            if (!(key in found))
+                delete gd.fileIds[key];
+        }
+    }
+    for (const key in found)
+        gd.fileIds[key] = found[key];
+    return items;
+}
+
+/**
+ * Get the ID of this directory of keys, or null if it doesn't exist.
+ * @param gd  Google Drive instance data
+ * @param dirs  Path of the directory
+ * @param create  Create the directory (and its parents) if it doesn't exist
+ */
+async function getDirId(
+    gd: GoogleDriveData, dirs: string[], create: true
+): Promise<string>;
+async function getDirId(
+    gd: GoogleDriveData, dirs: string[], create?: boolean
+): Promise<string | null>;
+async function getDirId(
+    gd: GoogleDriveData, dirs: string[], create = false
+) {
+    let dirId = gd.dirId;
+    for (let i = 0; i < dirs.length; i++) {
+        const path = dirs.slice(0, i + 1).join("/");
+        const parent = dirId;
+        let id: string | null = null;
+        while (true) {
+            let p = gd.dirIds[path];
+            if (!p) {
+                const np = p = gd.dirIds[path] =
+                    findDir(gd, parent, dirs[i], create);
+                const forget = () => {
+                    if (gd.dirIds[path] === np)
+                        delete gd.dirIds[path];
+                };
+                np.then(id => {
+                    if (!id)
+                        forget();
+                }, forget);
+            }
+            id = await p;
+
+            // If it was only looked up, look again, this time creating it
+            if (id || !create)
+                break;
+        }
+        if (!id)
             return null;
+        dirId = id;
+    }
+    return dirId;
+}
+
+/**
+ * Find the ID of a directory by name, or null if there is none.
+ * @param gd  Google Drive instance data
+ * @param parent  ID of the directory containing it
+ * @param name  Name of the directory
+ * @param create  Create the directory if it doesn't exist
+ */
+async function findDir(
+    gd: GoogleDriveData, parent: string, name: string, create: boolean
+) {
+    const files = (await fileList(gd.session, gd.nlfOpts, parent, name))
+        .filter(x => x.mimeType === dirMime);
+    if (files.length)
+        return <string> files[0].id;
+    if (!create)
+        return null;
+    return await createDir(gd.session, gd.nlfOpts, parent, name);
+}
+
+/**
+ * Get the map of file IDs, listing the store if it hasn't been yet.
+ */
+async function getFileIds(gd: GoogleDriveData) {
+    if (!gd.listed) {
+        const p = gd.listed = listStore(gd).then(() => {});
+        p.catch(() => {
+            if (gd.listed === p)
+                gd.listed = null;
+        });
+    }
+    await gd.listed;
+    return gd.fileIds;
+}
+
+/**
+ * Get the ID of the file connected to this key, or null if there is none.
+ * @param gd  Google Drive instance data
+ * @param key  Key to look up
+ * @param refresh  Look it up even if it's already known
+ */
+async function getFileId(
+    gd: GoogleDriveData, key: string, refresh = false
+): Promise<string | null> {
+    /* The store has been listed, so unless the file has since been changed
+     * elsewhere, it only exists if it's in the map */
+    const fileIds = await getFileIds(gd);
+    if (!refresh)
+        return (key in fileIds) ? fileIds[key] : null;
+
+    const id = await findFile(gd, await gd.codec.keyToPath(key));
+    if (!id) {
+        delete fileIds[key];
+        return null;
+    }
+    return fileIds[key] = id;
+}
+
+/**
+ * Find the ID of a file in the store by path, or null if there is none.
+ */
+async function findFile(gd: GoogleDriveData, path: string[]) {
+    const dirId = await getDirId(gd, path.slice(0, -1));
+    if (!dirId)
+        return null;
+    const files = (await fileList(
+        gd.session, gd.nlfOpts, dirId, path[path.length - 1]
+    )).filter(x => x.mimeType !== dirMime);
+    return files.length ? <string> files[0].id : null;
+}
+
+/**
+ * Get the current version of a file, or null if it doesn't exist.
+ */
+async function getVersion(gd: GoogleDriveData, id: string) {
+    try {
+        const resp = await driveRequest(
+            gd.session, gd.nlfOpts, `${apiUrl}/files/${id}`, {
+                fields: "version"
+            }
+        );
+        return <string> (await resp.json()).version;
+    } catch (ex) {
+        if (ex instanceof errors.NotFoundError)
+            return null;
+        throw ex;
+    }
+}
+
+/**
+ * Download and deserialize the file connected to this key, and remember its
+ * version if detecting conflicts. Returns null if the item doesn't exist.
+ */
+async function download(
+    gd: GoogleDriveData, key: string, signal?: AbortSignal
+) {
+    let id = await getFileId(gd, key);
+    let value: any = null;
+    let version: string | null = null;
+    for (let tries = 0; id && tries < 2; tries++) {
+        try {
+            /* Get the version first, so that if the file changes in between,
+             * the version is older than what's downloaded, not newer */
+            if (gd.nlfOpts.onConflict)
+                version = await getVersion(gd, id);
+            value = await getItemById(
+                gd, id, events.progress(gd.events, "download-progress", key),
+                signal
+            );
+            break;
+        } catch (ex) {
+            if (!(ex instanceof errors.NotFoundError) || tries)
+                throw ex;
         }
 
-        const value = await getItemById(files[0].id);
-        if (callback)
-            callback(value);
-        return value;
-    });
-    promise = p;
-    return p;
+        // The file was removed elsewhere, so look it up again
+        id = await getFileId(gd, key, true);
+    }
+
+    if (!id) {
+        delete gd.versions[key];
+        return null;
+    }
+
+    if (version !== null)
+        gd.versions[key] = version;
+    else
+        delete gd.versions[key];
+    return value;
 }
 
-async function getItemById(id: string) {
-    // Read its content
-    const resp = await gapi.client.drive.files.get({
-        fileId: id,
-        alt: "media"
-    });
+/**
+ * Get the information on an item from its file metadata.
+ */
+function fileInfo(key: string, file: any): util.ItemInfo {
+    const modified = Date.parse(file.modifiedTime);
+    return {
+        key,
+        size: +file.size || 0,
+        modified: isNaN(modified) ? null : modified,
+        revision: file.version || null,
+        hash: file.md5Checksum || null
+    };
+}
 
-    /* The body is in pseudo-binary: each octet is one *Unicode* character, so
-     * we need to make a Uint8Array with the right length, then extract by char
-     * code. */
-    const body = new Uint8Array(
-        Array.from(<string> resp.body).map(x => x.charCodeAt(0))
+async function getItemById(
+    gd: GoogleDriveData, id: string, onProgress?: util.ProgressCallback,
+    signal?: AbortSignal
+) {
+    return await gd.codec.decode(await readFile(gd, id, onProgress, signal));
+}
+
+/**
+ * Read the content of a file.
+ * @param gd  Google Drive instance data
+ * @param id  ID of the file
+ * @param onProgress  Function to call with the progress of the download
+ * @param signal  Signal to abort the download
+ */
+async function readFile(
+    gd: GoogleDriveData, id: string, onProgress?: util.ProgressCallback,
+    signal?: AbortSignal
+) {
+    const resp = await driveRequest(
+        gd.session, gd.nlfOpts, `${apiUrl}/files/${id}`, {alt: "media"},
+        {signal}
     );
-    return await ser.deserialize(body);
+    if (onProgress && resp.body) {
+        const total = +(resp.headers.get("content-length") || 0);
+        return await util.readStream(resp.body, total, onProgress, signal);
+    }
+    return new Uint8Array(await resp.arrayBuffer());
+}
+
+/**
+ * Serialize and upload an item, resolving any conflict.
+ */
+async function store(
+    gd: GoogleDriveData, key: string, value: any, signal?: AbortSignal
+) {
+    const path = await gd.codec.keyToPath(key, true);
+
+    // Find the existing file, if any
+    const id = await getFileId(gd, key);
+
+    /* Check for conflicts. Drive has no conditional upload, so this is
+     * only a check of the current version. */
+    const onConflict = gd.nlfOpts.onConflict;
+    if (onConflict) {
+        const known = (key in gd.versions) ? gd.versions[key] : null;
+        const cur = id ? await getVersion(gd, id) : null;
+        if (cur !== known) {
+            gd.events.emit("conflict", {key});
+            const remote = (id && cur !== null)
+                ? await getItemById(gd, id, void 0, signal)
+                : null;
+            value = await onConflict(key, value, remote);
+        }
+    }
+
+    // Serialize
+    const valSer = await gd.codec.encode(value, key);
+    const onProgress = events.progress(gd.events, "upload-progress", key);
+
+    let file: any = null;
+    if (id) {
+        // Update the existing file in place
+        try {
+            file = await upload(gd, id, {}, valSer, onProgress, signal);
+        } catch (ex) {
+            if (!(ex instanceof errors.NotFoundError))
+                throw ex;
+        }
+    }
+
+    if (!file) {
+        // Create the file
+        file = await upload(gd, null, {
+            parents: [await getDirId(gd, path.slice(0, -1), true)],
+            name: path[path.length - 1]
+        }, valSer, onProgress, signal);
+    }
+
+    (await getFileIds(gd))[key] = file.id;
+    gd.versions[key] = file.version;
 }
 
 function setItem(
     this: LocalforageGoogleDrive,
-    key: string, value: any, callback?: ()=>unknown
+    key: string, value: any,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
-    const p = promise.catch(console.error).then(async () => {
-        // Serialize
-        const keySer = ser.safeify(key);
-        const valSer = ser.serialize(value);
+    const [opts, cb] = util.operationArgs(options, callback);
+    const gd = this._gd;
+    const set = () => run(gd, async () => {
+        await store(gd, key, value, opts.signal);
+        if (cb)
+            cb();
+    }, key, opts.signal);
+    return events.upload(gd.events, key, set);
+}
 
-        // Create the file
-        const accessToken = gapi.client.getToken().access_token;
+/**
+ * Upload a file's content and metadata, returning its ID and version.
+ * @param gd  Google Drive instance data
+ * @param id  ID of the file to update, or null to create a new file
+ * @param metadata  File metadata
+ * @param data  File content
+ * @param onProgress  Function to call with the progress of the upload
+ * @param signal  Signal to abort the upload
+ */
+async function upload(
+    gd: GoogleDriveData, id: string | null, metadata: any, data: Uint8Array,
+    onProgress: util.ProgressCallback = () => {}, signal?: AbortSignal
+) {
+    let chunkSize = gd.nlfOpts.chunkSize || defaultChunkSize;
+    chunkSize = Math.max(
+        chunkGranularity,
+        chunkSize - chunkSize % chunkGranularity
+    );
+    if (data.length > chunkSize) {
+        return await resumableUpload(
+            gd, id, metadata, data, chunkSize, onProgress, signal
+        );
+    }
+
+    const send = async (id: string | null, metadata: any) => {
         const form = new FormData();
-        form.append("metadata", new Blob([JSON.stringify({
-            parents: [this._gd.dirId],
-            name: keySer
-        })], { type: "application/json" }));
-        form.append("file", new Blob([valSer]));
-        const fres = await fetch("https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id", {
-            method: "POST",
-            headers: { "authorization": `Bearer ${accessToken}` },
-            body: form
-        });
-        if (fres.status < 200 || fres.status >= 300)
-            throw new Error(await fres.text());
-        const file = await fres.json();
-
-        // Look for any other instances
-        const files = await fileList(this._gd.dirId, keySer);
-        for (const otherFile of files) {
-            if (otherFile.id === file.id)
-                continue;
-            await gapi.client.drive.files.delete({
-                fileId: otherFile.id
-            });
+        form.append("metadata", new Blob([JSON.stringify(metadata)], {
+            type: "application/json"
+        }));
+        form.append("file", new Blob([<BlobPart> data]));
+        const fres = await driveFetch(
+            gd.session, `${uploadUrl}/files${id ? `/${id}` : ""}`, {
+                uploadType: "multipart",
+                fields: "id,version"
+            }, {
+                method: id ? "PATCH" : "POST",
+                body: form,
+                signal
+            }, (loaded, total) => {
+                // The body also has the metadata, so scale it to the data
+                onProgress(
+                    Math.floor(data.length * loaded / total), data.length
+                );
+            }
+        );
+        return await fres.json();
+    };
+
+    onProgress(0, data.length);
+    let file: any;
+    if (id) {
+        file = await retry.retry(gd.nlfOpts, () => send(id, metadata), signal);
+    } else {
+        // Make sure a retry doesn't create the file twice
+        file = await createOnce(
+            gd.session, gd.nlfOpts, metadata.parents[0], metadata.name, false,
+            () => send(null, metadata), found => send(found.id, {}), signal
+        );
+    }
+    onProgress(data.length, data.length);
+    return file;
+}
+
+/**
+ * Upload a file's content and metadata in chunks with a resumable upload,
+ * returning its ID and version. Each chunk is retried individually, from
+ * whatever point Drive says it has received. If an earlier upload of the same
+ * content to the same file didn't finish, it's resumed.
+ * @param gd  Google Drive instance data
+ * @param id  ID of the file to update, or null to create a new file
+ * @param metadata  File metadata
+ * @param data  File content
+ * @param chunkSize  Size of each chunk
+ * @param onProgress  Function to call with the progress of the upload
+ * @param signal  Signal to abort the upload
+ */
+async function resumableUpload(
+    gd: GoogleDriveData, id: string | null, metadata: any, data: Uint8Array,
+    chunkSize: number, onProgress: util.ProgressCallback,
+    signal?: AbortSignal
+) {
+    const session = gd.session;
+    const total = data.length;
+    const target = id || `${metadata.parents[0]}/${metadata.name}`;
+    const hash = await util.sha256(data);
+
+    // Resume the unfinished upload, if there is one
+    let resumed: string | null = null;
+    let offset = 0;
+    const prev = gd.uploads[target];
+    delete gd.uploads[target];
+    if (prev && prev.hash === hash) {
+        try {
+            const status = await retry.retry(
+                gd.nlfOpts, () => queryUpload(session, prev.uri, total, signal),
+                signal
+            );
+            if (status.file) {
+                onProgress(total, total);
+                return status.file;
+            }
+            resumed = prev.uri;
+            offset = status.offset;
+        } catch (ex) {
+            // If the session has expired, start a new one
+            util.throwIfAborted(signal);
+            if (retry.isTransient(ex))
+                throw ex;
         }
+    }
 
-        if (callback)
-            callback();
-    });
-    promise = p;
-    return p;
+    const uri =
+        resumed || await startUpload(gd, id, metadata, total, signal);
+    gd.uploads[target] = {uri, hash};
+
+    // Upload the chunks
+    onProgress(offset, total);
+    while (true) {
+        const res = await retry.retry(gd.nlfOpts, async () => {
+            const end = Math.min(offset + chunkSize, total);
+            try {
+                return await uploadStatus(await authFetch(session, uri, {
+                    method: "PUT",
+                    headers: {
+                        "content-range": `bytes ${offset}-${end - 1}/${total}`
+                    },
+                    body: new Blob([<BlobPart> data.subarray(offset, end)]),
+                    signal
+                }, loaded => onProgress(offset + loaded, total)));
+
+            } catch (ex) {
+                if (!retry.isTransient(ex))
+                    throw ex;
+
+                // Find out how much Drive received before trying again
+                try {
+                    const status =
+                        await queryUpload(session, uri, total, signal);
+                    if (status.file)
+                        return status;
+                    offset = status.offset;
+                } catch (ex) {}
+                throw ex;
+
+            }
+        }, signal);
+
+        if (res.file) {
+            delete gd.uploads[target];
+            onProgress(total, total);
+            return res.file;
+        }
+        offset = res.offset;
+        onProgress(offset, total);
+    }
 }
 
-function removeItem(
-    this: LocalforageGoogleDrive,
-    key: string, callback?: ()=>unknown
+/**
+ * Start a resumable upload, returning its session URI.
+ * @param gd  Google Drive instance data
+ * @param id  ID of the file to update, or null to create a new file
+ * @param metadata  File metadata
+ * @param total  Size of the file content
+ * @param signal  Signal to abort the request
+ */
+async function startUpload(
+    gd: GoogleDriveData, id: string | null, metadata: any, total: number,
+    signal?: AbortSignal
 ) {
-    const p = promise.catch(console.error).then(async () => {
-        const files = await fileList(this._gd.dirId, ser.safeify(key));
-        for (const file of files) {
-            await gapi.client.drive.files.delete({
-                fileId: file.id
-            });
+    const start = await retry.retry(gd.nlfOpts, () => driveFetch(
+        gd.session, `${uploadUrl}/files${id ? `/${id}` : ""}`, {
+            uploadType: "resumable",
+            fields: "id,version"
+        }, {
+            method: id ? "PATCH" : "POST",
+            headers: {
+                "content-type": "application/json; charset=UTF-8",
+                "x-upload-content-length": `${total}`
+            },
+            body: JSON.stringify(metadata),
+            signal
         }
+    ), signal);
+    const uri = start.headers.get("location");
+    if (!uri)
+        throw new errors.NonlocalForageError("Upload session not created");
+    return uri;
+}
 
-        if (callback)
-            callback();
-    });
-    promise = p;
-    return p;
+/**
+ * Ask Drive how much of a resumable upload it has received.
+ */
+async function queryUpload(
+    session: GoogleDriveSession, uri: string, total: number,
+    signal?: AbortSignal
+) {
+    return await uploadStatus(await authFetch(session, uri, {
+        method: "PUT",
+        headers: {"content-range": `bytes */${total}`},
+        signal
+    }));
 }
 
-async function clear(
+/**
+ * Get the status of a resumable upload from a response to one of its
+ * requests: either the completed file, or the amount uploaded so far.
+ */
+async function uploadStatus(
+    resp: Response
+): Promise<{file: any, offset: number}> {
+    if (resp.status === 200 || resp.status === 201)
+        return {file: await resp.json(), offset: 0};
+
+    if (resp.status === 308) {
+        // Range is of the form bytes=0-<last byte received>
+        const range = /-([0-9]+)$/.exec(resp.headers.get("range") || "");
+        return {file: null, offset: range ? +range[1] + 1 : 0};
+    }
+
+    throw await driveError(resp);
+}
+
+/**
+ * Delete a file (or directory) by ID. If it's already gone (perhaps removed
+ * elsewhere, or by a request that failed but was then retried), that's fine.
+ */
+async function deleteFile(
+    gd: GoogleDriveData, id: string, signal?: AbortSignal
+) {
+    try {
+        await driveRequest(
+            gd.session, gd.nlfOpts, `${apiUrl}/files/${id}`, {},
+            {method: "DELETE", signal}
+        );
+    } catch (ex) {
+        if (!(ex instanceof errors.NotFoundError))
+            throw ex;
+    }
+}
+
+/**
+ * Remove an item, if it exists.
+ */
+async function remove(gd: GoogleDriveData, key: string, signal?: AbortSignal) {
+    delete gd.versions[key];
+    const id = await getFileId(gd, key);
+    if (id) {
+        await deleteFile(gd, id, signal);
+        delete (await getFileIds(gd))[key];
+        pruneDirs(gd, await gd.codec.keyToPath(key));
+    }
+    await gd.codec.removed(key);
+}
+
+/**
+ * Remove the directories containing this file, innermost first, for as long
+ * as they're empty. Writes to other keys run alongside a removal, and could
+ * write into a directory as it's removed, so this is queued for the whole
+ * store, to run once they've finished. Failures are only reported as events.
+ */
+function pruneDirs(gd: GoogleDriveData, path: string[]) {
+    if (path.length < 2)
+        return;
+    run(gd, async () => {
+        for (let end = path.length - 1; end > 0; end--) {
+            const dirs = path.slice(0, end);
+            const id = await getDirId(gd, dirs);
+            if (!id)
+                continue;
+            if ((await fileList(gd.session, gd.nlfOpts, id)).length)
+                return;
+            delete gd.dirIds[dirs.join("/")];
+            await deleteFile(gd, id);
+        }
+    }).catch(() => {});
+}
+
+function removeItem(
     this: LocalforageGoogleDrive,
+    key: string,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
     callback?: ()=>unknown
 ) {
-    await removeItem.call(this, "", callback);
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._gd, async () => {
+        await remove(this._gd, key, opts.signal);
+        if (cb)
+            cb();
+    }, key, opts.signal);
+}
+
+function clear(
+    this: LocalforageGoogleDrive,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._gd, async () => {
+        const gd = this._gd;
+        gd.versions = Object.create(null);
+        gd.dirIds = Object.create(null);
+        gd.codec.clear();
+        const files = await fileList(
+            gd.session, gd.nlfOpts, gd.dirId, "", null, opts.signal
+        );
+        for (const file of files)
+            await deleteFile(gd, file.id, opts.signal);
+        gd.fileIds = Object.create(null);
+        gd.listed = Promise.resolve();
+        await gd.codec.checkKey();
+
+        if (cb)
+            cb();
+    }, null, opts.signal);
 }
 
 function length(
     this: LocalforageGoogleDrive,
+    options?: nlfOptions.OperationOptions | ((len: number)=>unknown),
     callback?: (len: number)=>unknown
 ) {
-    const p = promise.catch(console.error).then(async () => {
-        const len = (await fileList(this._gd.dirId)).length;
-        if (callback)
-            callback(len);
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._gd, async () => {
+        const len = (await listStore(this._gd, [], null, opts.signal)).length;
+        if (cb)
+            cb(len);
         return len;
-    });
-    promise = p;
-    return p;
+    }, null, opts.signal);
 }
 
 async function key(
     this: LocalforageGoogleDrive,
-    index: number, callback?: (key: string)=>unknown
+    index: number,
+    options?: nlfOptions.OperationOptions | ((key: string)=>unknown),
+    callback?: (key: string)=>unknown
 ) {
-    const key = (await keys.call(this))[index];
+    const [opts, cb] = util.operationArgs(options, callback);
+    const key = (await keys.call(this, {signal: opts.signal}))[index];
     if (key) {
-        if (callback)
-            callback(key);
+        if (cb)
+            cb(key);
         return key;
     }
     throw new Error("Key does not exist");
 }
 
+function getItemInfo(
+    this: LocalforageGoogleDrive,
+    key: string,
+    options?: nlfOptions.OperationOptions |
+        ((info: util.ItemInfo | null)=>unknown),
+    callback?: (info: util.ItemInfo | null)=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._gd, async () => {
+        const gd = this._gd;
+        let id = await getFileId(gd, key);
+        let info: util.ItemInfo | null = null;
+        for (let tries = 0; id && tries < 2; tries++) {
+            try {
+                const resp = await driveRequest(
+                    gd.session, gd.nlfOpts, `${apiUrl}/files/${id}`,
+                    {fields: fileFields}, {signal: opts.signal}
+                );
+                info = fileInfo(key, await resp.json());
+                break;
+            } catch (ex) {
+                if (!(ex instanceof errors.NotFoundError) || tries)
+                    throw ex;
+            }
+
+            // The file was removed elsewhere, so look it up again
+            id = await getFileId(gd, key, true);
+        }
+
+        if (cb)
+            cb(info);
+        return info;
+    }, key, opts.signal);
+}
+
+function iterateInfo(
+    this: LocalforageGoogleDrive,
+    iteratorCallback: (info: util.ItemInfo) => any,
+    options?: nlfOptions.OperationOptions | (() => unknown),
+    successCallback?: () => unknown
+) {
+    const [opts, cb] = util.operationArgs(options, successCallback);
+    return run(this._gd, async () => {
+        let ret: any;
+        const items = await listStore(this._gd, [], null, opts.signal);
+        for (const item of items) {
+            ret = iteratorCallback(fileInfo(item.key, item.file));
+            if (ret !== void 0)
+                break;
+        }
+
+        if (cb)
+            cb();
+        return ret;
+    }, null, opts.signal);
+}
+
+/**
+ * Get the revision of this item as of the last time this instance read or
+ * wrote it, from the same request as the value, or null if it isn't known.
+ * This makes no request, so the item may have changed since.
+ */
+function knownRevision(
+    this: LocalforageGoogleDrive, key: string
+): string | null {
+    const versions = this._gd.versions;
+    return (key in versions) ? versions[key] : null;
+}
+
 function keys(
     this: LocalforageGoogleDrive,
+    options?: nlfOptions.KeysOptions | ((keys: string[])=>unknown),
     callback?: (keys: string[])=>unknown
 ) {
-    const p = promise.catch(console.error).then(async () => {
-        const files = await fileList(this._gd.dirId);
-        const keys = files.map(x => ser.unsafeify(x.name));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        callback = options;
+        options = void 0;
+    }
+    const prefix = (options && options.prefix) || "";
+    const signal = options && options.signal;
+
+    return run(this._gd, async () => {
+        const keys = (await listPrefix(this._gd, prefix, signal))
+            .map(x => x.key);
         if (callback)
             callback(keys);
         return keys;
-    });
-    promise = p;
-    return p;
+    }, null, signal);
+}
+
+function keysWithPrefix(
+    this: LocalforageGoogleDrive,
+    prefix: string,
+    options?: nlfOptions.OperationOptions | ((keys: string[])=>unknown),
+    callback?: (keys: string[])=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return keys.call(this, {prefix, signal: opts.signal}, cb);
 }
 
 function dropInstance(
     this: LocalforageGoogleDrive,
-    options?: {name?: string, storeName?: string},
+    options?: {name?: string, storeName?: string, signal?: AbortSignal},
     callback?: () => unknown
 ) {
     if (typeof options === "function") {
@@ -449,7 +1601,9 @@ function dropInstance(
         options = void 0;
     }
 
-    const p = promise.catch(console.error).then(async () => {
+    const signal = options && options.signal;
+
+    return run(this._gd, async () => {
         // Figure out which directory to delete
         let toDelete: string = this._gd.dirId;
         const toDeleteDir = util.dropInstanceDirectory(this._gd.path, options);
@@ -457,7 +1611,10 @@ function dropInstance(
             const parts = toDeleteDir.split("/");
             let curDir = "root";
             for (const part of parts) {
-                const files = await fileList(curDir, part);
+                const files = await fileList(
+                    this._gd.session, this._gd.nlfOpts, curDir, part, null,
+                    signal
+                );
                 if (!files.length) {
                     // Doesn't exist, don't delete it!
                     if (callback)
@@ -470,29 +1627,107 @@ function dropInstance(
         }
 
         // Delete as requested
-        await gapi.client.drive.files.delete({
-            fileId: toDelete
-        });
+        await deleteFile(this._gd, toDelete, signal);
+        if (toDelete === this._gd.dirId)
+            this._gd.unforward();
 
         if (callback)
             callback();
-    });
-    promise = p;
-    return p;
+    }, null, signal);
 }
 
-function storageEstimate(this: LocalforageGoogleDrive) {
-    const p = promise.catch(console.error).then(async () => {
-        const about = await gapi.client.drive.about.get({
-            fields: "storageQuota"
-        });
+function storageEstimate(
+    this: LocalforageGoogleDrive,
+    options: nlfOptions.OperationOptions = {}
+) {
+    return run(this._gd, async () => {
+        const about = await (await driveRequest(
+            this._gd.session, this._gd.nlfOpts, `${apiUrl}/about`,
+            {fields: "storageQuota"}, {signal: options.signal}
+        )).json();
         return {
-            quota: +about.result.storageQuota.limit || 1/0,
-            usage: +about.result.storageQuota.usage
+            quota: +about.storageQuota.limit || 1/0,
+            usage: +about.storageQuota.usage
         };
-    });
-    promise = p;
-    return p;
+    }, null, options.signal);
+}
+
+function getItems(
+    this: LocalforageGoogleDrive,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const gd = this._gd;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(gd, async () => {
+        // Drive's batch requests can't download, so download in parallel
+        const results = await util.bulk(
+            keys, gd.nlfOpts.bulkConcurrency,
+            key => attempt(gd, () => download(gd, key, opts.signal))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, null, opts.signal);
+}
+
+function setItems(
+    this: LocalforageGoogleDrive,
+    items: util.BulkItem[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const gd = this._gd;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(gd, async () => {
+        // Nor upload, so upload in parallel
+        const results = await util.bulk(
+            items.map(x => x.key), gd.nlfOpts.bulkConcurrency,
+            (key, idx) => events.upload(gd.events, key, () => attempt(
+                gd, () => store(gd, key, items[idx].value, opts.signal)
+            ))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, null, opts.signal);
+}
+
+function removeItems(
+    this: LocalforageGoogleDrive,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const gd = this._gd;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(gd, async () => {
+        const results = await util.bulk(
+            keys, gd.nlfOpts.bulkConcurrency,
+            key => attempt(gd, () => remove(gd, key, opts.signal))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, null, opts.signal);
+}
+
+function addEventListener<K extends keyof events.EventMap>(
+    this: LocalforageGoogleDrive,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).addEventListener(type, listener);
+}
+
+function removeEventListener<K extends keyof events.EventMap>(
+    this: LocalforageGoogleDrive,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).removeEventListener(type, listener);
 }
 
 export const googleDriveLocalForage = {
@@ -508,5 +1743,14 @@ export const googleDriveLocalForage = {
     key,
     keys,
     dropInstance,
-    storageEstimate
+    storageEstimate,
+    keysWithPrefix,
+    getItemInfo,
+    iterateInfo,
+    addEventListener,
+    removeEventListener,
+    getItems,
+    setItems,
+    removeItems,
+    knownRevision
 };
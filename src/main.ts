@@ -1,5 +1,6 @@
 import * as cf from "./cache";
 import * as dbx from "./dropbox";
+import * as errors from "./errors";
 import * as fsdh from "./fsdh";
 import * as gd from "./google-drive";
 import * as wdav from "./webdav";
@@ -14,3 +15,26 @@ export const webDAVLocalForage = wdav.webDAVLocalForage;
 
 export type LockableForage = lkf.LockableForage;
 export const LockableForage = lkf.LockableForage;
+
+export type NonlocalForageError = errors.NonlocalForageError;
+export const NonlocalForageError = errors.NonlocalForageError;
+export type NotFoundError = errors.NotFoundError;
+export const NotFoundError = errors.NotFoundError;
+export type AuthError = errors.AuthError;
+export const AuthError = errors.AuthError;
+export type QuotaError = errors.QuotaError;
+export const QuotaError = errors.QuotaError;
+export type RateLimitError = errors.RateLimitError;
+export const RateLimitError = errors.RateLimitError;
+export type NetworkError = errors.NetworkError;
+export const NetworkError = errors.NetworkError;
+export type ServerError = errors.ServerError;
+export const ServerError = errors.ServerError;
+export type ConflictError = errors.ConflictError;
+export const ConflictError = errors.ConflictError;
+export type CorruptDataError = errors.CorruptDataError;
+export const CorruptDataError = errors.CorruptDataError;
+export type EncryptionKeyError = errors.EncryptionKeyError;
+export const EncryptionKeyError = errors.EncryptionKeyError;
+export type LayoutError = errors.LayoutError;
+export const LayoutError = errors.LayoutError;
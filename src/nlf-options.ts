@@ -14,6 +14,8 @@
  * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
  */
 
+import * as encryption from "./encryption";
+
 export interface NonlocalforageOptions {
     /**
      * Function to call to request transient activation, if needed. This *must*
@@ -77,4 +79,121 @@ export interface NonlocalforageOptions {
      * rather than simply reusing the established account.
      */
     forcePrompt?: boolean;
+
+    /**
+     * Maximum number of requests to have in flight at once, for backends that
+     * support concurrent requests (currently Google Drive). Requests
+     * concerning the same key are always performed in order. Defaults to 1.
+     */
+    concurrency?: number;
+
+    /**
+     * Maximum number of keys to read or write at once in bulk operations
+     * (getItems, setItems and removeItems), on backends that don't have a
+     * batch request for them. Defaults to 4.
+     */
+    bulkConcurrency?: number;
+
+    /**
+     * Number of times to retry a request that failed transiently, i.e.,
+     * because of a network failure, a server error, or rate limiting.
+     * Defaults to 5. Set to 0 to never retry. Each request is retried by
+     * itself, so an operation is never repeated as a whole.
+     */
+    retries?: number;
+
+    /**
+     * Base delay, in milliseconds, for exponential backoff between retries.
+     * The actual delay is random, up to this doubled for each failed attempt.
+     * If the backend says how long to wait, that is used instead. Defaults to
+     * 1000.
+     */
+    retryDelay?: number;
+
+    /**
+     * Maximum delay, in milliseconds, between retries, not counting delays
+     * requested by the backend. Defaults to 60000.
+     */
+    retryMaxDelay?: number;
+
+    /**
+     * Size, in bytes, of each request when uploading large values. Values
+     * larger than this are uploaded in pieces, which can be resumed from the
+     * last piece the backend received if the connection is interrupted,
+     * including by a later write of the same value if the first one gave up
+     * (currently Dropbox and Google Drive, and only without encryption, which
+     * makes every write's content different). Defaults to 8MiB.
+     */
+    chunkSize?: number;
+
+    /**
+     * Compress values with this format before storing them. Values stored
+     * without compression can still be read, whatever this is set to.
+     */
+    compression?: CompressionFormat;
+
+    /**
+     * Values whose serialized size is less than this many bytes are stored
+     * uncompressed, as compression rarely helps them. Defaults to 1024.
+     */
+    compressionThreshold?: number;
+
+    /**
+     * Maximum length of a filename. Keys whose filenames (after escaping or
+     * encryption) would be longer than this are stored under a hash instead,
+     * with the original key kept in a manifest file. Defaults to 255.
+     */
+    maxFilenameLength?: number;
+
+    /**
+     * If set, keys are split at this separator, and stored in nested
+     * directories: e.g., with "/", "project/123/frame" is stored as the file
+     * "frame" in the directory "123" in the directory "project". This keeps
+     * directory listings small, and makes listing keys with a given prefix
+     * (with keysWithPrefix) faster. Existing keys containing the separator
+     * are moved into their directories when the store is first opened with
+     * it. Once set, opening the store with a different separator (or none)
+     * fails with a LayoutError.
+     */
+    keySeparator?: string;
+
+    /**
+     * Encrypt values (and optionally keys) on the client with AES-GCM, so the
+     * backend only ever sees ciphertext. Give either a passphrase or a
+     * CryptoKey.
+     */
+    encryption?: encryption.EncryptionOptions;
+
+    /**
+     * Function to call when a write conflicts with a change made elsewhere,
+     * i.e., the item was changed remotely since it was last read or written
+     * by this instance. It is given the key, the value being written, and the
+     * value presently stored remotely (null if the item was removed), and
+     * should return (or resolve to) the value to write. If this is not set,
+     * writes are unconditional, and the last write wins.
+     */
+    onConflict?: (key: string, local: any, remote: any) => any;
+}
+
+/**
+ * Options for a single operation.
+ */
+export interface OperationOptions {
+    /**
+     * Signal to abort the operation. If it's aborted before the operation
+     * starts, the operation is dropped from the queue; if it's aborted while
+     * the operation is running, any request in flight is aborted where the
+     * backend allows. Either way, the operation rejects with an AbortError.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for listing keys.
+ */
+export interface KeysOptions extends OperationOptions {
+    /**
+     * Only list keys starting with this prefix.
+     */
+    prefix?: string;
 }
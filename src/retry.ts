@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as errors from "./errors";
+import * as nlfOptions from "./nlf-options";
+import * as util from "./util";
+
+const defaultRetries = 5;
+const defaultRetryDelay = 1000;
+const defaultRetryMaxDelay = 60000;
+
+/**
+ * Is this error transient, i.e., might the operation succeed if retried?
+ */
+export function isTransient(ex: any) {
+    return ex instanceof errors.RateLimitError ||
+        ex instanceof errors.NetworkError ||
+        ex instanceof errors.ServerError;
+}
+
+/**
+ * Perform this operation, retrying it if it fails transiently. Waits as long
+ * as the backend asks if it gave a time, or otherwise, uses jittered
+ * exponential backoff.
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param fn  Function to perform the operation
+ * @param signal  Signal to stop retrying
+ */
+export async function retry<T>(
+    nlfOpts: nlfOptions.NonlocalforageOptions | undefined,
+    fn: () => Promise<T>, signal?: AbortSignal
+): Promise<T> {
+    nlfOpts = nlfOpts || <nlfOptions.NonlocalforageOptions> {};
+    const retries = (typeof nlfOpts.retries === "number")
+        ? nlfOpts.retries : defaultRetries;
+    const baseDelay = nlfOpts.retryDelay || defaultRetryDelay;
+    const maxDelay = nlfOpts.retryMaxDelay || defaultRetryMaxDelay;
+
+    for (let attempt = 0;; attempt++) {
+        util.throwIfAborted(signal);
+        try {
+            return await fn();
+        } catch (ex) {
+            if (attempt >= retries || !isTransient(ex))
+                throw ex;
+
+            let delay: number;
+            if (ex instanceof errors.RateLimitError &&
+                typeof ex.retryAfter === "number") {
+                delay = ex.retryAfter;
+            } else {
+                delay = Math.random() *
+                    Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+            }
+            await util.abortable(
+                new Promise(res => setTimeout(res, delay)), signal
+            );
+        }
+    }
+}
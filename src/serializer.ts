@@ -14,109 +14,541 @@
  * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
  */
 
+import * as errors from "./errors";
+
 interface Descriptor {
-    type: "JSON" | "TypedArray" | "ArrayBuffer",
+    type: "JSON" | "TypedArray" | "ArrayBuffer" | "Structured" | "Compressed",
     taType?: string,
-    data?: any
+    data?: any,
+
+    /**
+     * For Compressed, the compression format. The payload is a complete
+     * serialization, compressed.
+     */
+    compression?: CompressionFormat,
+
+    /**
+     * The key under which this data is stored, if recorded.
+     */
+    key?: string,
+
+    /**
+     * For Structured, the length of each binary part, stored in order after
+     * the descriptor.
+     */
+    parts?: number[]
+}
+
+/**
+ * Options for serialization.
+ */
+export interface SerializeOptions {
+    /**
+     * Compression format to use, if any.
+     */
+    compression?: CompressionFormat;
+
+    /**
+     * Serialized values smaller than this many bytes are stored uncompressed.
+     * Defaults to 1024.
+     */
+    compressionThreshold?: number;
+
+    /**
+     * Key to record with the data, so that it can be found from the data
+     * alone.
+     */
+    key?: string;
+}
+
+const defaultCompressionThreshold = 1024;
+
+// Serialized data starts with "NLFD", followed by the format version
+const magic = [0x4E, 0x4C, 0x46, 0x44];
+const formatVersion = 1;
+
+/* Header: magic, version, descriptor length, payload length (each 32-bit
+ * little-endian), then the SHA-256 of the descriptor and payload */
+const headerSize = 16 + 32;
+
+/**
+ * Names of all the ArrayBuffer view types that can be serialized. Not all of
+ * them exist in every environment.
+ */
+const viewTypes = [
+    "Int8Array", "Uint8Array", "Uint8ClampedArray", "Int16Array",
+    "Uint16Array", "Int32Array", "Uint32Array", "Float32Array",
+    "Float64Array", "BigInt64Array", "BigUint64Array", "DataView"
+];
+
+/**
+ * Get the name of the type of this ArrayBuffer view.
+ */
+function viewType(data: ArrayBufferView) {
+    for (const name of viewTypes) {
+        const ta = (<any> globalThis)[name];
+        if (ta && data instanceof ta)
+            return name;
+    }
+    throw new Error("Unrecognized TypedArray type");
 }
 
 /**
- * Serialize this data into binary data as a Uint8Array. data may be an
- * ArrayBuffer view, or anything JSON serializable.
+ * Create an ArrayBuffer view of this type, with a copy of these bytes.
+ */
+function viewFromBytes(name: string | undefined, bytes: Uint8Array) {
+    const ta = (name && viewTypes.indexOf(name) >= 0)
+        ? (<any> globalThis)[name]
+        : null;
+    if (!ta)
+        throw new Error(`Unrecognized TypedArray type ${name}`);
+
+    // Copy first, as the bytes may not be aligned for this type
+    return new ta(
+        bytes.slice(0).buffer, 0,
+        bytes.byteLength / (ta.BYTES_PER_ELEMENT || 1)
+    );
+}
+
+/**
+ * Binary data collected while encoding a structured value.
+ */
+type Part = Uint8Array | Blob;
+
+/**
+ * Encode this value as a JSON-compatible tree, with binary data moved into
+ * parts. Values that JSON can't represent are replaced by objects with a "$"
+ * field naming their type. Returns the tree, and whether any such
+ * replacements were needed.
+ *
+ * Containers (arrays, objects, Maps and Sets) are numbered in the order
+ * they're first reached, and any container reached again, including through
+ * a cycle, is encoded as a reference to its number, so that it's the same
+ * object when decoded, as with structured cloning.
+ */
+function encodeStructured(value: any, parts: Part[]): [any, boolean] {
+    let special = false;
+    const refs = new Map<any, number>();
+
+    function part(data: Part) {
+        parts.push(data);
+        return parts.length - 1;
+    }
+
+    /* Number this container, or if it already has a number, get a reference
+     * to it */
+    function ref(value: any) {
+        const idx = refs.get(value);
+        if (typeof idx === "number") {
+            special = true;
+            return {$: "Ref", i: idx};
+        }
+        refs.set(value, refs.size);
+        return null;
+    }
+
+    function encode(value: any): any {
+        switch (typeof value) {
+            case "undefined":
+                special = true;
+                return {$: "undefined"};
+
+            case "number":
+                if (isFinite(value) && (value !== 0 || 1 / value > 0))
+                    return value;
+                special = true;
+                return {$: "Number", v: (value === 0) ? "-0" : `${value}`};
+
+            case "bigint":
+                special = true;
+                return {$: "BigInt", v: value.toString()};
+
+            case "object":
+                break;
+
+            default:
+                return value;
+        }
+
+        if (value === null)
+            return value;
+
+        if (Array.isArray(value))
+            return ref(value) || value.map(encode);
+
+        if (ArrayBuffer.isView(value)) {
+            special = true;
+            return {
+                $: "TypedArray", t: viewType(value),
+                p: part(new Uint8Array(
+                    value.buffer, value.byteOffset, value.byteLength
+                ))
+            };
+        }
+
+        if (value instanceof ArrayBuffer) {
+            special = true;
+            return {$: "ArrayBuffer", p: part(new Uint8Array(value))};
+        }
+
+        if (typeof Blob !== "undefined" && value instanceof Blob) {
+            special = true;
+            if (typeof File !== "undefined" && value instanceof File) {
+                return {
+                    $: "File", p: part(value), type: value.type,
+                    name: value.name, lastModified: value.lastModified
+                };
+            }
+            return {$: "Blob", p: part(value), type: value.type};
+        }
+
+        if (value instanceof Date) {
+            special = true;
+            return {$: "Date", v: value.getTime()};
+        }
+
+        if (value instanceof RegExp) {
+            special = true;
+            return {$: "RegExp", source: value.source, flags: value.flags};
+        }
+
+        if (value instanceof Map) {
+            const r = ref(value);
+            if (r)
+                return r;
+            special = true;
+            const v: any[] = [];
+            value.forEach((mv, mk) => v.push([encode(mk), encode(mv)]));
+            return {$: "Map", v};
+        }
+
+        if (value instanceof Set) {
+            const r = ref(value);
+            if (r)
+                return r;
+            special = true;
+            const v: any[] = [];
+            value.forEach(sv => v.push(encode(sv)));
+            return {$: "Set", v};
+        }
+
+        const r = ref(value);
+        if (r)
+            return r;
+        const obj: Record<string, any> = {};
+        for (const k of Object.keys(value))
+            obj[k] = encode(value[k]);
+        if (Object.prototype.hasOwnProperty.call(value, "$")) {
+            // Wrap it so that it isn't mistaken for a special value
+            special = true;
+            return {$: "Object", v: obj};
+        }
+        return obj;
+    }
+
+    const tree = encode(value);
+    return [tree, special];
+}
+
+/**
+ * Decode a tree encoded by encodeStructured.
+ * @param tree  Encoded tree
+ * @param parts  Binary parts
+ */
+function decodeStructured(tree: any, parts: Uint8Array[]) {
+    // Containers, in the order they were numbered when encoding
+    const refs: any[] = [];
+
+    function decode(value: any): any {
+        if (typeof value !== "object" || value === null)
+            return value;
+
+        if (Array.isArray(value)) {
+            const arr: any[] = [];
+            refs.push(arr);
+            for (const v of value)
+                arr.push(decode(v));
+            return arr;
+        }
+
+        if (typeof value.$ !== "string") {
+            const obj: Record<string, any> = {};
+            refs.push(obj);
+            for (const k of Object.keys(value))
+                obj[k] = decode(value[k]);
+            return obj;
+        }
+
+        switch (value.$) {
+            case "undefined":
+                return void 0;
+
+            case "Number":
+                return (value.v === "-0") ? -0 : +value.v;
+
+            case "BigInt":
+                return (<any> globalThis).BigInt(value.v);
+
+            case "TypedArray":
+                return viewFromBytes(value.t, parts[value.p]);
+
+            case "ArrayBuffer":
+                return parts[value.p].slice(0).buffer;
+
+            case "Blob":
+                return new Blob([<BlobPart> parts[value.p]], {type: value.type});
+
+            case "File":
+                return new File([<BlobPart> parts[value.p]], value.name, {
+                    type: value.type,
+                    lastModified: value.lastModified
+                });
+
+            case "Date":
+                return new Date(value.v);
+
+            case "RegExp":
+                return new RegExp(value.source, value.flags);
+
+            case "Map":
+            {
+                const map = new Map();
+                refs.push(map);
+                for (const [mk, mv] of value.v)
+                    map.set(decode(mk), decode(mv));
+                return map;
+            }
+
+            case "Set":
+            {
+                const set = new Set();
+                refs.push(set);
+                for (const sv of value.v)
+                    set.add(decode(sv));
+                return set;
+            }
+
+            case "Object":
+            {
+                const obj: Record<string, any> = {};
+                refs.push(obj);
+                for (const k of Object.keys(value.v))
+                    obj[k] = decode(value.v[k]);
+                return obj;
+            }
+
+            case "Ref":
+                if (!(value.i < refs.length)) {
+                    throw new errors.CorruptDataError(
+                        `Serialized data refers to missing value ${value.i}`
+                    );
+                }
+                return refs[value.i];
+
+            default:
+                throw new Error(`Unrecognized serialized type ${value.$}`);
+        }
+    }
+
+    return decode(tree);
+}
+
+/**
+ * Pass this data through a compression or decompression stream.
+ */
+async function transform(
+    data: Uint8Array, stream: CompressionStream | DecompressionStream
+) {
+    const resp = new Response(
+        new Blob([<BlobPart> data]).stream().pipeThrough(stream)
+    );
+    return new Uint8Array(await resp.arrayBuffer());
+}
+
+/**
+ * Put together a descriptor and its payload, with a header.
+ */
+async function frame(desc: Descriptor, parts: Uint8Array[]) {
+    const te = new TextEncoder();
+    const descU8 = te.encode(JSON.stringify(desc));
+
+    let postSize = 0;
+    for (const p of parts)
+        postSize += p.length;
+    const serialized = new Uint8Array(headerSize + descU8.length + postSize);
+    serialized.set(descU8, headerSize);
+    let offset = headerSize + descU8.length;
+    for (const p of parts) {
+        serialized.set(p, offset);
+        offset += p.length;
+    }
+
+    const dv = new DataView(serialized.buffer);
+    serialized.set(magic, 0);
+    dv.setUint32(4, formatVersion, true);
+    dv.setUint32(8, descU8.length, true);
+    dv.setUint32(12, postSize, true);
+    serialized.set(new Uint8Array(await crypto.subtle.digest(
+        "SHA-256", serialized.subarray(headerSize)
+    )), 16);
+
+    return serialized;
+}
+
+/**
+ * Split serialized data into its descriptor and payload, checking its
+ * integrity.
+ */
+async function unframe(data: Uint8Array): Promise<[Descriptor, Uint8Array]> {
+    if (data.length < headerSize)
+        throw new errors.CorruptDataError("Serialized data is truncated");
+
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const version = dv.getUint32(4, true);
+    if (version > formatVersion) {
+        throw new errors.NonlocalForageError(
+            `Serialized data has unsupported format version ${version}`
+        );
+    }
+    const descSize = dv.getUint32(8, true);
+    const postSize = dv.getUint32(12, true);
+    if (data.length !== headerSize + descSize + postSize) {
+        throw new errors.CorruptDataError(
+            `Serialized data should be ${headerSize + descSize + postSize} ` +
+            `bytes, but is ${data.length}`
+        );
+    }
+
+    const hash = new Uint8Array(await crypto.subtle.digest(
+        "SHA-256", <BufferSource> data.subarray(headerSize)
+    ));
+    for (let i = 0; i < hash.length; i++) {
+        if (hash[i] !== data[16 + i]) {
+            throw new errors.CorruptDataError(
+                "Serialized data does not match its checksum"
+            );
+        }
+    }
+
+    const descU8 = data.subarray(headerSize, headerSize + descSize);
+    const desc: Descriptor = JSON.parse(new TextDecoder().decode(descU8));
+    return [desc, data.subarray(headerSize + descSize)];
+}
+
+/**
+ * Split serialized data in the legacy format (a native-endian descriptor
+ * length, then the descriptor and payload) into its descriptor and payload.
+ */
+function unframeLegacy(data: Uint8Array): [Descriptor, Uint8Array] {
+    try {
+        const descSize = (new Uint32Array(data.slice(0, 4).buffer))[0];
+        if (data.length < 4 || 4 + descSize > data.length)
+            throw new Error("Descriptor is truncated");
+        const descU8 = data.subarray(4, 4 + descSize);
+        const desc: Descriptor = JSON.parse(new TextDecoder().decode(descU8));
+        return [desc, data.subarray(4 + descSize)];
+    } catch (ex: any) {
+        throw new errors.CorruptDataError(
+            `Serialized data is corrupt: ${ex.message || ex}`, ex
+        );
+    }
+}
+
+/**
+ * Is this serialized data in the current (not legacy) format?
+ */
+function isFramed(data: Uint8Array) {
+    if (data.length < magic.length)
+        return false;
+    for (let i = 0; i < magic.length; i++) {
+        if (data[i] !== magic[i])
+            return false;
+    }
+    return true;
+}
+
+/**
+ * Serialize this data into binary data as a Uint8Array. data may be anything
+ * that localForage can store, i.e., anything structured-cloneable, including
+ * Blobs, Maps, Sets, Dates, BigInts, and (nested) binary data.
  * @param data  Data to serialize.
+ * @param opts  Serialization options.
  */
-export function serialize(data: any) {
-    let desc: Descriptor = {type: "JSON"}; 
-    let post: Uint8Array | null = null;
+export async function serialize(data: any, opts: SerializeOptions = {}) {
+    let desc: Descriptor = {type: "JSON"};
+    let parts: Part[] = [];
+    if (typeof opts.key === "string")
+        desc.key = opts.key;
 
     // Serialize TypedArrays
-    if (data && data.buffer && data.buffer instanceof ArrayBuffer) {
+    if (ArrayBuffer.isView(data)) {
         desc.type = "TypedArray";
-        if (data instanceof Uint8Array) {
-            desc.taType = "Uint8Array";
-        } else if (data instanceof Uint8ClampedArray) {
-            desc.taType = "Uint8ClampedArray";
-        } else if (data instanceof Int16Array) {
-            desc.taType = "Int16Array";
-        } else if (data instanceof Uint16Array) {
-            desc.taType = "Uint16Array";
-        } else if (data instanceof Int32Array) {
-            desc.taType = "Int32Array";
-        } else if (data instanceof Uint32Array) {
-            desc.taType = "Uint32Array";
-        } else if (data instanceof Float32Array) {
-            desc.taType = "Float32Array";
-        } else if (data instanceof Float64Array) {
-            desc.taType = "Float64Array";
-        } else if (data instanceof DataView) {
-            desc.taType = "DataView";
-        } else {
-            throw new Error("Unrecognized TypedArray type");
-        }
-
-        post = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        desc.taType = viewType(data);
+        parts.push(
+            new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        );
 
     } else if (data instanceof ArrayBuffer) {
         desc.type = "ArrayBuffer";
-        post = new Uint8Array(data);
+        parts.push(new Uint8Array(data));
 
     } else {
-        desc.data = data;
+        /* Anything that JSON can represent directly is stored as JSON, which
+         * older versions can also read */
+        const [tree, special] = encodeStructured(data, parts);
+        desc.data = tree;
+        if (special) {
+            desc.type = "Structured";
+            desc.parts = [];
+            for (let i = 0; i < parts.length; i++) {
+                const p = parts[i];
+                const u8 = (p instanceof Uint8Array)
+                    ? p
+                    : new Uint8Array(await p.arrayBuffer());
+                parts[i] = u8;
+                desc.parts.push(u8.length);
+            }
+        }
 
     }
 
-    const te = new TextEncoder();
-    const descU8 = te.encode(JSON.stringify(desc));
+    const serialized = await frame(desc, <Uint8Array[]> parts);
 
-    const serialized = new Uint8Array(
-        4 +
-        descU8.length +
-        (post ? post.length : 0)
-    );
-    (new Uint32Array(serialized.buffer, 0, 1))[0] = descU8.length;
-    serialized.set(descU8, 4);
-    if (post)
-        serialized.set(post, 4 + descU8.length);
+    // Compress if asked, and if it's worth it
+    const threshold = (typeof opts.compressionThreshold === "number")
+        ? opts.compressionThreshold
+        : defaultCompressionThreshold;
+    if (opts.compression && serialized.length >= threshold) {
+        const compressed = await transform(
+            serialized, new CompressionStream(opts.compression)
+        );
+        if (compressed.length < serialized.length) {
+            return await frame({
+                type: "Compressed",
+                compression: opts.compression,
+                key: desc.key
+            }, [compressed]);
+        }
+    }
 
     return serialized;
 }
 
 /**
- * Deserialize this data previously serialized by serialize.
+ * Deserialize this data previously serialized by serialize. Raises a
+ * CorruptDataError if the data is damaged or truncated.
  * @param data  Data to deserialize.
  */
-export function deserialize(data: Uint8Array) {
-    const descSize = (new Uint32Array(data.buffer, data.byteOffset, 1))[0];
-    const descU8 = data.subarray(4, 4 + descSize);
-    const td = new TextDecoder();
-    const desc: Descriptor = JSON.parse(td.decode(descU8));
-    const post = data.subarray(4 + descSize);
+export async function deserialize(data: Uint8Array): Promise<any> {
+    const [desc, post] = isFramed(data)
+        ? await unframe(data)
+        : unframeLegacy(data);
 
     let ret: any;
     switch (desc.type) {
         case "TypedArray":
-        {
-            let ta: any;
-            switch (desc.taType) {
-                case "Uint8Array": ta = Uint8Array; break;
-                case "Uint8ClampedArray": ta = Uint8ClampedArray; break;
-                case "Int16Array": ta = Int16Array; break;
-                case "Uint16Array": ta = Uint16Array; break;
-                case "Int32Array": ta = Int32Array; break;
-                case "Uint32Array": ta = Uint32Array; break;
-                case "Float32Array": ta = Float32Array; break;
-                case "Float64Array": ta = Float64Array; break;
-                case "DataView": ta = DataView; break;
-                default:
-                    throw new Error(`Unrecognized TypedArray type ${desc.taType}`);
-            }
-
-            ret = (new ta(
-                post.buffer, post.byteOffset,
-                post.byteLength / (ta.BYTES_PER_ELEMENT || 1)
-            )).slice(0);
+            ret = viewFromBytes(desc.taType, post);
             break;
-        }
 
         case "ArrayBuffer":
             ret = post.slice(0).buffer;
@@ -126,6 +558,24 @@ export function deserialize(data: Uint8Array) {
             ret = desc.data;
             break;
 
+        case "Compressed":
+            ret = await deserialize(await transform(
+                post, new DecompressionStream(desc.compression!)
+            ));
+            break;
+
+        case "Structured":
+        {
+            const parts: Uint8Array[] = [];
+            let offset = 0;
+            for (const len of desc.parts || []) {
+                parts.push(post.subarray(offset, offset + len));
+                offset += len;
+            }
+            ret = decodeStructured(desc.data, parts);
+            break;
+        }
+
         default:
             throw new Error(`Unrecognized serialized type ${desc.type}`);
     }
@@ -133,19 +583,65 @@ export function deserialize(data: Uint8Array) {
     return ret;
 }
 
+/**
+ * Get the key recorded with this serialized data, if any, without
+ * deserializing the data itself.
+ * @param data  Serialized data.
+ */
+export async function deserializeKey(data: Uint8Array) {
+    const [desc] = isFramed(data)
+        ? await unframe(data)
+        : unframeLegacy(data);
+    return (typeof desc.key === "string") ? desc.key : null;
+}
+
 /**
  * Get a (very rough) approximation of the size of this data in bytes when
  * serialized.
  */
-export function approxSize(data: any) {
-    if (data && data.buffer && data.buffer instanceof ArrayBuffer) {
-        return data.buffer.byteLength;
+export function approxSize(data: any): number {
+    return approxSizeOnce(data, new Set());
+}
+
+/**
+ * Get the approximate size of this data, counting each container (in seen)
+ * only once.
+ */
+function approxSizeOnce(data: any, seen: Set<any>): number {
+    if (data && typeof data === "object") {
+        if (seen.has(data))
+            return 0;
+        seen.add(data);
+    }
+
+    if (ArrayBuffer.isView(data)) {
+        return data.byteLength;
 
     } else if (data instanceof ArrayBuffer) {
         return data.byteLength;
 
+    } else if (typeof Blob !== "undefined" && data instanceof Blob) {
+        return data.size;
+
+    } else if (data instanceof Map || data instanceof Set) {
+        let size = 0;
+        data.forEach((v: any, k: any) => {
+            size += approxSizeOnce(v, seen) +
+                (data instanceof Map ? approxSizeOnce(k, seen) : 0);
+        });
+        return size;
+
+    } else if (data && typeof data === "object" && !(data instanceof Date)) {
+        let size = 0;
+        for (const k of Object.keys(data))
+            size += k.length + approxSizeOnce(data[k], seen);
+        return size;
+
+    } else if (typeof data === "bigint") {
+        return data.toString().length;
+
     } else {
-        return JSON.stringify(data).length;
+        return (JSON.stringify(data) || "").length;
 
     }
 }
@@ -182,10 +678,10 @@ export function unsafeify(name: string) {
         let ccs: string;
         if (name[i+1] === "u") {
             ccs = name.slice(i+2, i+6);
-            i += 6;
+            i += 5;
         } else {
             ccs = name.slice(i+1, i+3);
-            i += 3;
+            i += 2;
         }
         key += String.fromCharCode(parseInt(ccs, 16));
     }
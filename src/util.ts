@@ -67,3 +67,380 @@ export function dropInstanceDirectory(
 
     return cloudDir;
 }
+
+/**
+ * Information about a stored item, from the backend's metadata.
+ */
+export interface ItemInfo {
+    /**
+     * The item's key.
+     */
+    key: string;
+
+    /**
+     * Size in bytes of the stored file (i.e., after serialization, compression
+     * and encryption).
+     */
+    size: number;
+
+    /**
+     * Time the item was last modified, in milliseconds since the epoch, or
+     * null if the backend doesn't say.
+     */
+    modified: number | null;
+
+    /**
+     * Revision of the file: the Dropbox rev, the WebDAV ETag, the Google Drive
+     * version, or the modification time of a FileSystemDirectoryHandle file.
+     * Changes whenever the item is written.
+     */
+    revision: string | null;
+
+    /**
+     * Hash of the stored file, if the backend provides one: the Dropbox
+     * content_hash, or the Google Drive MD5 checksum.
+     */
+    hash: string | null;
+}
+
+/**
+ * An item to write in a bulk operation.
+ */
+export interface BulkItem {
+    key: string;
+    value: any;
+}
+
+/**
+ * The result of a bulk operation for one key. Each key succeeds or fails on
+ * its own.
+ */
+export interface BulkResult {
+    /**
+     * The key.
+     */
+    key: string;
+
+    /**
+     * For getItems, the item's value, or null if it doesn't exist.
+     */
+    value?: any;
+
+    /**
+     * The error, if the operation failed for this key.
+     */
+    error?: any;
+}
+
+/**
+ * Default maximum number of keys to work on at once in a bulk operation.
+ */
+const defaultBulkConcurrency = 4;
+
+/**
+ * Perform an operation on each of these keys, with a bounded number at once,
+ * and collect the results in order. An error for one key doesn't affect the
+ * others, but is given in its result.
+ * @param keys  Keys to work on
+ * @param concurrency  Maximum number of keys to work on at once
+ * @param fn  Function to perform the operation on one key, given the key and
+ *            its index, and returning its value, if any
+ */
+export async function bulk(
+    keys: string[], concurrency: number | undefined,
+    fn: (key: string, index: number) => Promise<any>
+): Promise<BulkResult[]> {
+    const results: BulkResult[] = keys.map(key => ({key}));
+    let next = 0;
+    const worker = async () => {
+        while (next < keys.length) {
+            const idx = next++;
+            try {
+                const value = await fn(keys[idx], idx);
+                if (value !== void 0)
+                    results[idx].value = value;
+            } catch (ex) {
+                results[idx].error = ex;
+            }
+        }
+    };
+    const workers: Promise<void>[] = [];
+    concurrency = Math.max(concurrency || defaultBulkConcurrency, 1);
+    for (let i = 0; i < concurrency && i < keys.length; i++)
+        workers.push(worker());
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Does this string start with any of these prefixes? If prefixes is null,
+ * anything matches.
+ */
+export function hasPrefix(str: string, prefixes: string[] | null) {
+    return !prefixes || prefixes.some(x => str.slice(0, x.length) === x);
+}
+
+/**
+ * Create an error for an aborted operation.
+ */
+export function abortError() {
+    return new DOMException("The operation was aborted", "AbortError");
+}
+
+/**
+ * Throw an AbortError if this signal (if any) has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal && signal.aborted)
+        throw abortError();
+}
+
+/**
+ * Get a promise for the result of this promise, which rejects with an
+ * AbortError as soon as this signal (if any) is aborted.
+ */
+export function abortable<T>(
+    promise: Promise<T>, signal?: AbortSignal
+): Promise<T> {
+    if (!signal)
+        return promise;
+    return new Promise<T>((res, rej) => {
+        const abort = () => rej(abortError());
+        if (signal.aborted)
+            abort();
+        signal.addEventListener("abort", abort);
+        promise.then(res, rej).then(() => {
+            signal.removeEventListener("abort", abort);
+        });
+    });
+}
+
+/**
+ * Add this operation to a queue of operations, given as the promise for the
+ * last one. If the operation is aborted before its turn, it's skipped.
+ * Returns the promise for the queue with the operation added (which rejects if
+ * the operation fails, unless it was aborted), and the promise for the
+ * operation itself (which rejects as soon as it's aborted).
+ * @param last  Promise for the last operation in the queue
+ * @param fn  Function to perform the operation
+ * @param signal  Signal to abort the operation
+ */
+export function queue<T>(
+    last: Promise<unknown>, fn: () => Promise<T>, signal?: AbortSignal
+) {
+    const p = last.catch(console.error).then(() => {
+        throwIfAborted(signal);
+        return fn();
+    });
+    return {
+        queue: p.catch(ex => {
+            if (!signal || !signal.aborted)
+                throw ex;
+        }),
+        promise: abortable(p, signal)
+    };
+}
+
+/**
+ * Separate the options given to an operation from its callback, which may
+ * have been given in the options' place.
+ */
+export function operationArgs<C extends Function>(
+    options: {signal?: AbortSignal} | C | undefined, callback: C | undefined
+): [{signal?: AbortSignal}, C | undefined] {
+    if (typeof options === "function") {
+        // This API was made by clowns
+        return [{}, <C> options];
+    }
+    return [options || {}, callback];
+}
+
+/**
+ * A function to call with the progress of a transfer, in bytes.
+ */
+export type ProgressCallback = (loaded: number, total: number) => void;
+
+/**
+ * Read the whole of this stream, reporting progress as it arrives.
+ * @param stream  Stream to read
+ * @param total  Expected size in bytes, or 0 if unknown
+ * @param onProgress  Function to call with the progress
+ * @param signal  Signal to stop reading
+ */
+export async function readStream(
+    stream: ReadableStream<Uint8Array>, total: number,
+    onProgress: ProgressCallback, signal?: AbortSignal
+) {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    onProgress(0, total);
+    while (true) {
+        if (signal && signal.aborted) {
+            reader.cancel();
+            throw abortError();
+        }
+        const rd = await reader.read();
+        if (rd.done)
+            break;
+        chunks.push(rd.value);
+        loaded += rd.value.length;
+        onProgress(loaded, Math.max(total, loaded));
+    }
+
+    const ret = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+        ret.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return ret;
+}
+
+/**
+ * Convert binary data to a hex string.
+ */
+export function toHex(data: Uint8Array) {
+    return Array.from(data).map(x => x.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Get the SHA-256 hash of this data, as a hex string.
+ */
+export async function sha256(data: Uint8Array) {
+    return toHex(new Uint8Array(
+        await crypto.subtle.digest("SHA-256", <BufferSource> data)
+    ));
+}
+
+/**
+ * Convert a hex string to binary data.
+ */
+export function fromHex(str: string) {
+    const ret = new Uint8Array(str.length >> 1);
+    for (let i = 0; i < ret.length; i++)
+        ret[i] = parseInt(str.slice(i * 2, i * 2 + 2), 16);
+    return ret;
+}
+
+interface QueuedRequest {
+    key: string | null;
+    start: () => Promise<unknown>;
+}
+
+/**
+ * A queue of asynchronous requests, running up to a given number at once.
+ * Requests for the same key are run one at a time, in the order they were
+ * queued. Requests with no key (i.e., requests for the whole store) are run
+ * alone, after everything queued before them.
+ */
+export class RequestQueue {
+    constructor(
+        /**
+         * Maximum number of requests to run at once.
+         */
+        public concurrency = 1
+    ) {
+        if (this.concurrency < 1)
+            this.concurrency = 1;
+    }
+
+    /**
+     * Queue this request.
+     * @param fn  Function to perform the request
+     * @param key  Key that the request concerns, or null for the whole store
+     * @param signal  Signal to abort the request. If it's aborted before the
+     *                request starts, the request is removed from the queue.
+     *                Once it's started, aborting only rejects the returned
+     *                promise.
+     */
+    run<T>(
+        fn: () => Promise<T>, key: string | null = null, signal?: AbortSignal
+    ): Promise<T> {
+        return abortable(new Promise<T>((res, rej) => {
+            if (signal && signal.aborted) {
+                rej(abortError());
+                return;
+            }
+
+            const abort = () => {
+                const idx = this._queue.indexOf(req);
+                if (idx >= 0) {
+                    this._queue.splice(idx, 1);
+                    rej(abortError());
+                    this._pump();
+                }
+            };
+            const req: QueuedRequest = {
+                key,
+                start: () => {
+                    if (signal)
+                        signal.removeEventListener("abort", abort);
+                    return fn().then(res, rej);
+                }
+            };
+            this._queue.push(req);
+            if (signal)
+                signal.addEventListener("abort", abort);
+            this._pump();
+        }), signal);
+    }
+
+    /**
+     * Start whatever requests can be started.
+     */
+    private _pump() {
+        const waiting: Record<string, boolean> = Object.create(null);
+        let i = 0;
+        while (i < this._queue.length) {
+            if (this._runningAll || this._running >= this.concurrency)
+                break;
+
+            const req = this._queue[i];
+            if (req.key === null) {
+                // Must wait for everything before it
+                if (i === 0 && this._running === 0) {
+                    this._queue.shift();
+                    this._start(req);
+                }
+                break;
+            }
+
+            if (this._runningKeys[req.key] || waiting[req.key]) {
+                // Must wait for an earlier request for the same key
+                waiting[req.key] = true;
+                i++;
+                continue;
+            }
+
+            this._queue.splice(i, 1);
+            this._start(req);
+        }
+    }
+
+    /**
+     * Start a single request.
+     */
+    private _start(req: QueuedRequest) {
+        const key = req.key;
+        this._running++;
+        if (key === null)
+            this._runningAll = true;
+        else
+            this._runningKeys[key] = true;
+
+        req.start().then(() => {
+            this._running--;
+            if (key === null)
+                this._runningAll = false;
+            else
+                delete this._runningKeys[key];
+            this._pump();
+        });
+    }
+
+    private _queue: QueuedRequest[] = [];
+    private _running = 0;
+    private _runningAll = false;
+    private _runningKeys: Record<string, boolean> = Object.create(null);
+}
@@ -18,26 +18,122 @@ import type * as localforageT from "localforage";
 
 declare var WebDAV: any;
 
+import * as codec from "./codec";
+import * as errors from "./errors";
+import * as events from "./events";
 import * as nlfOptions from "./nlf-options";
-import * as ser from "./serializer";
+import * as retry from "./retry";
 import * as util from "./util";
 
 export interface WebDAVData {
     promise: Promise<unknown>;
     dav: any;
+    nlfOpts: nlfOptions.NonlocalforageOptions;
+    codec: codec.Codec;
     dir: string;
+
+    /**
+     * ETag of each file as last read or written by this instance, for conflict
+     * detection and knownRevision, normalized by normalizeETag. Null if the
+     * server didn't send one, in which case conflicts on that file can't be
+     * detected, so writes to it are unconditional.
+     */
+    etags: Record<string, string | null>;
+
+    /**
+     * Directories of keys (with keySeparator) known to exist.
+     */
+    dirs: Record<string, boolean>;
+
+    /**
+     * Listeners for this instance's events.
+     */
+    events: events.Emitter;
 }
 
 type LocalforageWebDAV = typeof localforageT & {
     _dav: WebDAVData;
 };
 
+/**
+ * Convert an error from the WebDAV client into an error of the appropriate
+ * type. Errors that didn't come from WebDAV are returned unchanged.
+ */
+function davError(ex: any): any {
+    if (ex instanceof errors.NonlocalForageError)
+        return ex;
+    if (ex instanceof TypeError) {
+        // fetch failed, so there was no response at all
+        return new errors.NetworkError(ex.message, ex);
+    }
+    if (!ex || typeof ex.status !== "number")
+        return ex;
+
+    let retryAfter: number | undefined = void 0;
+    if (ex.response && ex.response.headers && ex.response.headers.get) {
+        retryAfter = errors.parseRetryAfter(
+            ex.response.headers.get("retry-after")
+        );
+    }
+    return errors.fromHTTPStatus(
+        ex.status, `${ex.message || ex}`, ex, retryAfter
+    );
+}
+
+/**
+ * Perform this request, converting any error it raises, and retrying it if it
+ * fails transiently. Only for requests that are safe to repeat.
+ * @param nlfOpts  Nonlocal forage options, for the retry configuration
+ * @param fn  Function to perform the request
+ * @param signal  Signal to stop retrying
+ */
+function request<T>(
+    nlfOpts: nlfOptions.NonlocalforageOptions, fn: () => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    return retry.retry(nlfOpts, async () => {
+        try {
+            return await fn();
+        } catch (ex) {
+            throw davError(ex);
+        }
+    }, signal);
+}
+
+/**
+ * Perform this operation (or this part of a bulk operation), converting any
+ * errors it raises (and emitting any events they warrant). The operation's
+ * requests are retried individually, so the operation itself never is.
+ */
+async function attempt<T>(wdd: WebDAVData, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn();
+    } catch (ex) {
+        const err = davError(ex);
+        events.error(wdd.events, err);
+        throw err;
+    }
+}
+
+/**
+ * Run this operation on the WebDAV request queue, with attempt. If the signal
+ * is aborted before the operation starts, it's skipped.
+ */
+function run<T>(
+    wdd: WebDAVData, fn: () => Promise<T>, signal?: AbortSignal
+): Promise<T> {
+    const q = util.queue(wdd.promise, () => attempt(wdd, fn), signal);
+    wdd.promise = q.queue;
+    return q.promise;
+}
+
 async function _initStorage(
     this: LocalforageWebDAV,
     options: any
 ) {
     try {
-        const nlfOpts: nlfOptions.NonlocalforageOptions = options.nonlocalforage;
+        const nlfOpts: nlfOptions.NonlocalforageOptions =
+            options.nonlocalforage || {};
 
         // Load the library
         if (typeof WebDAV === "undefined")
@@ -56,159 +152,591 @@ async function _initStorage(
         let curDir = "";
         for (const part of path.split("/")) {
             curDir = `${curDir}/${part}`;
-            if (!(await dav.exists(curDir)))
-                await dav.createDirectory(curDir);
+            await createDir(dav, nlfOpts, curDir);
         }
 
         this._dav = {
             promise: Promise.all([]),
-            dav, dir: curDir
+            dav, nlfOpts,
+            codec: await codec.Codec.create(options, {
+                read: async path => {
+                    const dl = await downloadFile(this._dav, path);
+                    return dl ? dl.data : null;
+                },
+                write: async (path, data) => {
+                    await makeDirs(this._dav, path);
+                    await request(nlfOpts, () => dav.putFileContents(
+                        davPath(this._dav, path), data.buffer
+                    ));
+                },
+                list: async () => {
+                    const files = await request<any[]>(
+                        nlfOpts, () => dav.getDirectoryContents(curDir)
+                    );
+                    return files
+                        .filter(x => x.type !== "directory")
+                        .map(x => <string> x.basename);
+                },
+                remove: async path => {
+                    await deletePath(this._dav, davPath(this._dav, path));
+                }
+            }),
+            dir: curDir,
+            etags: Object.create(null),
+            dirs: Object.create(null),
+            events: events.instanceEmitter(this)
         };
+        await this._dav.codec.checkKey();
+        await this._dav.codec.migrate();
 
     } catch (ex: any) {
         console.error(`${ex}\n${ex.stack}`);
-        throw ex;
+        throw davError(ex);
 
     }
 }
 
 function iterate(
     this: LocalforageWebDAV,
-    iteratorCallback: (key: string) => any,
-    successCallback: () => unknown
+    options: nlfOptions.KeysOptions | ((key: string) => any),
+    iteratorCallback?: ((key: string) => any) | (() => unknown),
+    successCallback?: () => unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const files: any[] = await this._dav.dav.getDirectoryContents(this._dav.dir);
-        for (const file of files)
-            iteratorCallback(ser.unsafeify(file.basename));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        successCallback = <() => unknown> iteratorCallback;
+        iteratorCallback = options;
+        options = {};
+    }
+    const cb = <(key: string) => any> iteratorCallback;
+    const prefix = options.prefix;
+    const signal = options.signal;
+
+    return run(this._dav, async () => {
+        let ret: any;
+        if (typeof prefix === "string") {
+            // Iterate in order over just the keys with this prefix
+            for (const key of await listKeys(this._dav, prefix)) {
+                ret = cb(key);
+                if (ret !== void 0)
+                    break;
+            }
+        } else {
+            ret = await walk(this._dav, [], async path => {
+                const key = await this._dav.codec.pathToKey(path);
+                if (key !== null)
+                    return cb(key);
+            });
+        }
         if (successCallback)
             successCallback();
-    });
-    this._dav.promise = p;
-    return p;
+        return ret;
+    }, signal);
+}
+
+/**
+ * List every key with this prefix, in sorted order.
+ */
+async function listKeys(wdd: WebDAVData, prefix: string) {
+    const codec = wdd.codec;
+    const keys: string[] = [];
+    await walk(
+        wdd, await codec.prefixToDirs(prefix),
+        async path => {
+            const key = await codec.pathToKey(path);
+            if (key !== null && key.slice(0, prefix.length) === prefix)
+                keys.push(key);
+        },
+        codec.prefixToNames(prefix)
+    );
+    return keys.sort();
+}
+
+/**
+ * Get the full path on the server of this path in the store.
+ */
+function davPath(wdd: WebDAVData, path: string[]) {
+    return [wdd.dir].concat(path).join("/");
+}
+
+/**
+ * Create a directory, if it doesn't already exist.
+ */
+async function createDir(
+    dav: any, nlfOpts: nlfOptions.NonlocalforageOptions, dir: string
+) {
+    if (await request(nlfOpts, () => dav.exists(dir)))
+        return;
+    try {
+        await request(nlfOpts, () => dav.createDirectory(dir));
+    } catch (ex) {
+        /* Another write (of a bulk operation), or a failed request that was
+         * then retried, may have just created it */
+        if (!(await request(nlfOpts, () => dav.exists(dir))))
+            throw ex;
+    }
+}
+
+/**
+ * Create the directories needed to store a file at this path, if they don't
+ * already exist.
+ */
+async function makeDirs(wdd: WebDAVData, path: string[]) {
+    let dir = wdd.dir;
+    for (let i = 0; i < path.length - 1; i++) {
+        dir = `${dir}/${path[i]}`;
+        if (wdd.dirs[dir])
+            continue;
+        await createDir(wdd.dav, wdd.nlfOpts, dir);
+        wdd.dirs[dir] = true;
+    }
+}
+
+/**
+ * Delete a file or directory. If it doesn't exist (perhaps deleted by a
+ * request that failed but was then retried), that's fine.
+ */
+async function deletePath(wdd: WebDAVData, name: string) {
+    try {
+        await request(wdd.nlfOpts, () => wdd.dav.deleteFile(name));
+    } catch (ex) {
+        if (!(ex instanceof errors.NotFoundError))
+            throw ex;
+    }
+}
+
+/**
+ * Call this callback with the path of every file in this directory (given as
+ * a path from the store's directory) and in the directories of keys in it.
+ * Stops early and returns the callback's return if it returns anything.
+ * @param wdd  WebDAV instance data
+ * @param dirs  Path of the directory
+ * @param cb  Callback for each file, with its stat
+ * @param names  Only include files and directories (directly in this
+ *               directory) whose names start with one of these
+ */
+async function walk(
+    wdd: WebDAVData, dirs: string[],
+    cb: (path: string[], stat: any) => Promise<unknown>,
+    names: string[] | null = null
+): Promise<unknown> {
+    let files: any[];
+    try {
+        const dir = davPath(wdd, dirs);
+        files = await request(
+            wdd.nlfOpts, () => wdd.dav.getDirectoryContents(dir)
+        );
+    } catch (ex) {
+        const err = davError(ex);
+        if (err instanceof errors.NotFoundError)
+            return;
+        throw err;
+    }
+
+    for (const file of files) {
+        if (!util.hasPrefix(file.basename, names))
+            continue;
+        const path = dirs.concat([file.basename]);
+        let ret: unknown;
+        if (file.type === "directory") {
+            if (!wdd.codec.isDirName(file.basename))
+                continue;
+            ret = await walk(wdd, path, cb);
+        } else {
+            ret = await cb(path, file);
+        }
+        if (ret !== void 0)
+            return ret;
+    }
+}
+
+/**
+ * Normalize an ETag, as given in a response header or by stat, so that the
+ * two forms can be compared: any weak marker (W/) and quotes are removed.
+ * Returns null if there's no ETag.
+ */
+function normalizeETag(etag: string | null | undefined): string | null {
+    if (!etag)
+        return null;
+    etag = etag.trim();
+    if (etag.slice(0, 2).toUpperCase() === "W/")
+        etag = etag.slice(2);
+    if (etag.length >= 2 && etag[0] === "\"" && etag[etag.length - 1] === "\"")
+        etag = etag.slice(1, -1);
+    return etag || null;
+}
+
+/**
+ * Get the ETag from a response from the WebDAV client, if it has one,
+ * normalized.
+ */
+function responseETag(headers: any): string | null {
+    if (!headers)
+        return null;
+    return normalizeETag(headers.get ? headers.get("etag") : headers.etag);
+}
+
+/**
+ * Remember the ETag of an item as just read or written. If the server didn't
+ * send one, it can't do conditional writes on it.
+ */
+function setETag(wdd: WebDAVData, key: string, etag: string | null) {
+    wdd.etags[key] = etag;
+}
+
+/**
+ * Download a file by path, with its ETag. Returns null if the file doesn't
+ * exist.
+ * @param wdd  WebDAV instance data
+ * @param path  Path of the file
+ * @param onProgress  Function to call with the progress of the download
+ * @param signal  Signal to abort the download
+ */
+async function downloadFile(
+    wdd: WebDAVData, path: string[], onProgress?: util.ProgressCallback,
+    signal?: AbortSignal
+) {
+    let dl: any;
+    try {
+        dl = await request(wdd.nlfOpts, () => {
+            return wdd.dav.getFileContents(davPath(wdd, path), {
+                details: true,
+                signal,
+                onDownloadProgress: onProgress
+                    ? (ev: any) => onProgress(ev.loaded, ev.total || 0)
+                    : void 0
+            });
+        }, signal);
+    } catch (ex) {
+        const err = davError(ex);
+        if (!(err instanceof errors.NotFoundError))
+            throw err;
+        return null;
+    }
+
+    return {
+        data: new Uint8Array(dl.data),
+        etag: responseETag(dl.headers)
+    };
+}
+
+/**
+ * Download and deserialize an item, and remember its ETag. Returns null if the
+ * item doesn't exist.
+ */
+async function download(wdd: WebDAVData, key: string, signal?: AbortSignal) {
+    const dl = await downloadFile(
+        wdd, await wdd.codec.keyToPath(key),
+        events.progress(wdd.events, "download-progress", key), signal
+    );
+    if (!dl) {
+        delete wdd.etags[key];
+        return null;
+    }
+
+    const value = await wdd.codec.decode(dl.data);
+    setETag(wdd, key, dl.etag);
+    return {value};
+}
+
+/**
+ * Get the information on an item from its stat.
+ */
+function fileInfo(key: string, stat: any): util.ItemInfo {
+    const modified = Date.parse(stat.lastmod);
+    return {
+        key,
+        size: stat.size,
+        modified: isNaN(modified) ? null : modified,
+        revision: normalizeETag(stat.etag),
+        hash: null
+    };
 }
 
 function getItem(
     this: LocalforageWebDAV,
-    key: string, callback?: (value: any)=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | ((value: any)=>unknown),
+    callback?: (value: any)=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dav, async () => {
         // Try to download the file
-        let value: any = null;
-        try {
-            const dl = await this._dav.dav.getFileContents(
-                `${this._dav.dir}/${ser.safeify(key)}`
-            );
-            value = ser.deserialize(new Uint8Array(dl));
-        } catch (ex) {}
+        const dl = await download(this._dav, key, opts.signal);
+        const value = dl ? dl.value : null;
 
-        if (callback)
-            callback(value);
+        if (cb)
+            cb(value);
 
         return value;
-    });
-    this._dav.promise = p;
-    return p;
+    }, opts.signal);
+}
+
+/**
+ * Serialize and upload an item, resolving any conflict.
+ */
+async function store(
+    wdd: WebDAVData, key: string, value: any, signal?: AbortSignal
+) {
+    const path = await wdd.codec.keyToPath(key, true);
+    const name = davPath(wdd, path);
+    const onConflict = wdd.nlfOpts.onConflict;
+    const onProgress = events.progress(wdd.events, "upload-progress", key);
+    await makeDirs(wdd, path);
+    while (true) {
+        // Serialize the value
+        const valSer = await wdd.codec.encode(value, key);
+
+        /* If we're detecting conflicts, only write over the version we
+         * know about. If the server didn't give this file an ETag, a write
+         * would always conflict, so just write. */
+        const headers: Record<string, string> = {
+            "Content-Type": "application/octet-stream"
+        };
+        if (onConflict) {
+            const etag = wdd.etags[key];
+            if (etag)
+                headers["If-Match"] = `"${etag}"`;
+            else if (etag !== null)
+                headers["If-None-Match"] = "*";
+        }
+
+        /* Create the file. This is putFileContents, but with the response, for
+         * the new ETag. */
+        try {
+            const res = await request<any>(wdd.nlfOpts, () => {
+                return wdd.dav.customRequest(name, {
+                    method: "PUT",
+                    headers,
+                    data: valSer.buffer,
+                    signal,
+                    onUploadProgress: (ev: any) => onProgress(
+                        ev.loaded, ev.total || valSer.length
+                    )
+                });
+            }, signal);
+            setETag(wdd, key, responseETag(res.headers));
+            break;
+        } catch (ex) {
+            const err = davError(ex);
+            if (!onConflict || !(err instanceof errors.ConflictError))
+                throw err;
+        }
+
+        // Conflict, so resolve it and try again
+        wdd.events.emit("conflict", {key});
+        const remote = await download(wdd, key, signal);
+        value = await onConflict(key, value, remote ? remote.value : null);
+    }
 }
 
 function setItem(
     this: LocalforageWebDAV,
-    key: string, value: any, callback?: ()=>unknown
+    key: string, value: any,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        // Serialize the value
-        const valSer = ser.serialize(value);
+    const [opts, cb] = util.operationArgs(options, callback);
+    const wdd = this._dav;
+    const set = () => run(wdd, async () => {
+        await store(wdd, key, value, opts.signal);
+        if (cb)
+            cb();
+    }, opts.signal);
+    return events.upload(wdd.events, key, set);
+}
 
-        // Create the file
-        await this._dav.dav.putFileContents(
-            `${this._dav.dir}/${ser.safeify(key)}`,
-            valSer.buffer
-        );
+/**
+ * Remove an item, if it exists.
+ */
+async function remove(wdd: WebDAVData, key: string) {
+    const path = await wdd.codec.keyToPath(key);
+    delete wdd.etags[key];
+    await deletePath(wdd, davPath(wdd, path));
+    await pruneDirs(wdd, path);
+    await wdd.codec.removed(key);
+}
 
-        if (callback)
-            callback();
-    });
-    this._dav.promise = p;
-    return p;
+/**
+ * Remove the directories containing this file, innermost first, for as long
+ * as they're empty.
+ */
+async function pruneDirs(wdd: WebDAVData, path: string[]) {
+    for (let end = path.length - 1; end > 0; end--) {
+        const dir = davPath(wdd, path.slice(0, end));
+        try {
+            const files = await request<any[]>(
+                wdd.nlfOpts, () => wdd.dav.getDirectoryContents(dir)
+            );
+            if (files.length)
+                return;
+        } catch (ex) {
+            if (!(ex instanceof errors.NotFoundError))
+                throw ex;
+        }
+        delete wdd.dirs[dir];
+        await deletePath(wdd, dir);
+    }
 }
 
 function removeItem(
     this: LocalforageWebDAV,
-    key: string, callback?: ()=>unknown
+    key: string,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
+    callback?: ()=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const dav: any = this._dav.dav;
-        const name =
-            `${this._dav.dir}/${ser.safeify(key)}`;
-        if (await dav.exists(name))
-            await dav.deleteFile(name);
-        if (callback)
-            callback();
-    });
-    this._dav.promise = p;
-    return p;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dav, async () => {
+        await remove(this._dav, key);
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function clear(
     this: LocalforageWebDAV,
+    options?: nlfOptions.OperationOptions | (()=>unknown),
     callback?: ()=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const {dav, dir} = this._dav;
-        await dav.deleteFile(dir);
-        await dav.createDirectory(dir);
-        if (callback)
-            callback();
-    });
-    this._dav.promise = p;
-    return p;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dav, async () => {
+        const wdd = this._dav;
+        wdd.etags = Object.create(null);
+        wdd.dirs = Object.create(null);
+        wdd.codec.clear();
+        await deletePath(wdd, wdd.dir);
+        await createDir(wdd.dav, wdd.nlfOpts, wdd.dir);
+        await wdd.codec.checkKey();
+        if (cb)
+            cb();
+    }, opts.signal);
 }
 
 function length(
     this: LocalforageWebDAV,
+    options?: nlfOptions.OperationOptions | ((len: number)=>unknown),
     callback?: (len: number)=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const files = await this._dav.dav.getDirectoryContents(this._dav.dir);
-        if (callback)
-            callback(files.length);
-        return files.length;
-    });
-    this._dav.promise = p;
-    return p;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dav, async () => {
+        let len = 0;
+        await walk(this._dav, [], async path => {
+            if (this._dav.codec.isKeyPath(path))
+                len++;
+        });
+        if (cb)
+            cb(len);
+        return len;
+    }, opts.signal);
 }
 
 async function key(
     this: LocalforageWebDAV,
-    index: number, callback?: (key: string)=>unknown
+    index: number,
+    options?: nlfOptions.OperationOptions | ((key: string)=>unknown),
+    callback?: (key: string)=>unknown
 ) {
-    const key = (await keys.call(this))[index];
+    const [opts, cb] = util.operationArgs(options, callback);
+    const key = (await keys.call(this, {signal: opts.signal}))[index];
     if (key) {
-        if (callback)
-            callback(key);
+        if (cb)
+            cb(key);
         return key;
     }
     throw new Error("Key does not exist");
 }
 
+function getItemInfo(
+    this: LocalforageWebDAV,
+    key: string,
+    options?: nlfOptions.OperationOptions |
+        ((info: util.ItemInfo | null)=>unknown),
+    callback?: (info: util.ItemInfo | null)=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(this._dav, async () => {
+        const wdd = this._dav;
+        let info: util.ItemInfo | null = null;
+        try {
+            const name = davPath(wdd, await wdd.codec.keyToPath(key));
+            const stat = await request(wdd.nlfOpts, () => wdd.dav.stat(name));
+            info = fileInfo(key, stat);
+        } catch (ex) {
+            const err = davError(ex);
+            if (!(err instanceof errors.NotFoundError))
+                throw err;
+        }
+        if (cb)
+            cb(info);
+        return info;
+    }, opts.signal);
+}
+
+function iterateInfo(
+    this: LocalforageWebDAV,
+    iteratorCallback: (info: util.ItemInfo) => any,
+    options?: nlfOptions.OperationOptions | (() => unknown),
+    successCallback?: () => unknown
+) {
+    const [opts, cb] = util.operationArgs(options, successCallback);
+    return run(this._dav, async () => {
+        const ret = await walk(this._dav, [], async (path, stat) => {
+            const key = await this._dav.codec.pathToKey(path);
+            if (key !== null)
+                return iteratorCallback(fileInfo(key, stat));
+        });
+        if (cb)
+            cb();
+        return ret;
+    }, opts.signal);
+}
+
+/**
+ * Get the revision of this item as of the last time this instance read or
+ * wrote it, from the same request as the value, or null if it isn't known.
+ * This makes no request, so the item may have changed since.
+ */
+function knownRevision(
+    this: LocalforageWebDAV, key: string
+): string | null {
+    const etags = this._dav.etags;
+    return (key in etags) ? etags[key] : null;
+}
+
 function keys(
     this: LocalforageWebDAV,
+    options?: nlfOptions.KeysOptions | ((keys: string[])=>unknown),
     callback?: (keys: string[])=>unknown
 ) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const files: any[] = await this._dav.dav.getDirectoryContents(this._dav.dir);
-        const keys = files.map(x => ser.unsafeify(x.basename));
+    if (typeof options === "function") {
+        // This API was made by clowns
+        callback = options;
+        options = void 0;
+    }
+    const prefix = (options && options.prefix) || "";
+    const signal = options && options.signal;
+
+    return run(this._dav, async () => {
+        const keys = await listKeys(this._dav, prefix);
         if (callback)
             callback(keys);
         return keys;
-    });
-    this._dav.promise = p;
-    return p;
+    }, signal);
+}
+
+function keysWithPrefix(
+    this: LocalforageWebDAV,
+    prefix: string,
+    options?: nlfOptions.OperationOptions | ((keys: string[])=>unknown),
+    callback?: (keys: string[])=>unknown
+) {
+    const [opts, cb] = util.operationArgs(options, callback);
+    return keys.call(this, {prefix, signal: opts.signal}, cb);
 }
 
 function dropInstance(
     this: LocalforageWebDAV,
-    options?: {name?: string, storeName?: string},
+    options?: {name?: string, storeName?: string, signal?: AbortSignal},
     callback?: () => unknown
 ) {
     if (typeof options === "function") {
@@ -217,20 +745,24 @@ function dropInstance(
         options = void 0;
     }
 
-    const p = this._dav.promise.catch(console.error).then(async () => {
+    return run(this._dav, async () => {
         // Figure out which directory to delete
         const toDelete = util.dropInstanceDirectory(this._dav.dir, options);
-        await this._dav.dav.deleteFile(toDelete);
+        await deletePath(this._dav, toDelete);
         if (callback)
             callback();
-    });
-    this._dav.promise = p;
-    return p;
+    }, options && options.signal);
 }
 
-function storageEstimate(this: LocalforageWebDAV) {
-    const p = this._dav.promise.catch(console.error).then(async () => {
-        const quota = await this._dav.dav.getQuota();
+function storageEstimate(
+    this: LocalforageWebDAV,
+    options: nlfOptions.OperationOptions = {}
+) {
+    return run(this._dav, async () => {
+        const wdd = this._dav;
+        const quota = await request<any>(
+            wdd.nlfOpts, () => wdd.dav.getQuota()
+        );
         if (!quota) {
             return {
                 quota: 1/0,
@@ -242,9 +774,86 @@ function storageEstimate(this: LocalforageWebDAV) {
                 usage: +quota.used
             };
         }
-    });
-    this._dav.promise = p;
-    return p;
+    }, options.signal);
+}
+
+function getItems(
+    this: LocalforageWebDAV,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const wdd = this._dav;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(wdd, async () => {
+        const results = await util.bulk(
+            keys, wdd.nlfOpts.bulkConcurrency,
+            key => attempt(wdd, async () => {
+                const dl = await download(wdd, key, opts.signal);
+                return dl ? dl.value : null;
+            })
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function setItems(
+    this: LocalforageWebDAV,
+    items: util.BulkItem[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const wdd = this._dav;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(wdd, async () => {
+        const results = await util.bulk(
+            items.map(x => x.key), wdd.nlfOpts.bulkConcurrency,
+            (key, idx) => events.upload(wdd.events, key, () => attempt(
+                wdd, () => store(wdd, key, items[idx].value, opts.signal)
+            ))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function removeItems(
+    this: LocalforageWebDAV,
+    keys: string[],
+    options?: nlfOptions.OperationOptions |
+        ((results: util.BulkResult[])=>unknown),
+    callback?: (results: util.BulkResult[])=>unknown
+) {
+    const wdd = this._dav;
+    const [opts, cb] = util.operationArgs(options, callback);
+    return run(wdd, async () => {
+        const results = await util.bulk(
+            keys, wdd.nlfOpts.bulkConcurrency,
+            key => attempt(wdd, () => remove(wdd, key))
+        );
+        if (cb)
+            cb(results);
+        return results;
+    }, opts.signal);
+}
+
+function addEventListener<K extends keyof events.EventMap>(
+    this: LocalforageWebDAV,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).addEventListener(type, listener);
+}
+
+function removeEventListener<K extends keyof events.EventMap>(
+    this: LocalforageWebDAV,
+    type: K, listener: events.Listener<K>
+) {
+    events.instanceEmitter(this).removeEventListener(type, listener);
 }
 
 export const webDAVLocalForage = {
@@ -260,5 +869,14 @@ export const webDAVLocalForage = {
     key,
     keys,
     dropInstance,
-    storageEstimate
+    storageEstimate,
+    keysWithPrefix,
+    getItemInfo,
+    iterateInfo,
+    addEventListener,
+    removeEventListener,
+    getItems,
+    setItems,
+    removeItems,
+    knownRevision
 };
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as codec from "../src/codec";
+import * as encryption from "../src/encryption";
+import * as errors from "../src/errors";
+import * as nlfOptions from "../src/nlf-options";
+
+/**
+ * A store of files in memory, by path joined with "/".
+ */
+class MemoryStore implements codec.RawStore {
+    files: Record<string, Uint8Array> = Object.create(null);
+
+    async read(path: string[]) {
+        return this.files[path.join("/")] || null;
+    }
+
+    async write(path: string[], data: Uint8Array) {
+        this.files[path.join("/")] = data;
+    }
+
+    async list() {
+        return Object.keys(this.files).filter(x => x.indexOf("/") < 0);
+    }
+
+    async remove(path: string[]) {
+        delete this.files[path.join("/")];
+    }
+}
+
+/**
+ * Create a codec with these options over this store.
+ */
+function create(
+    nlfOpts: Partial<nlfOptions.NonlocalforageOptions>,
+    store: codec.RawStore = new MemoryStore()
+) {
+    return codec.Codec.create({
+        name: "test", storeName: "store", nonlocalforage: nlfOpts
+    }, store);
+}
+
+/**
+ * Store a value as the drivers do.
+ */
+async function put(c: codec.Codec, key: string, value: any) {
+    await c.store.write(
+        await c.keyToPath(key, true), await c.encode(value, key)
+    );
+}
+
+/**
+ * Get a value as the drivers do.
+ */
+async function get(c: codec.Codec, key: string) {
+    const data = await c.store.read(await c.keyToPath(key));
+    return data ? await c.decode(data) : null;
+}
+
+const passphrase: encryption.EncryptionOptions = {
+    passphrase: "correct horse", iterations: 1000
+};
+
+describe("Codec paths", () => {
+    it("stores keys under their safe names", async () => {
+        const c = await create({});
+        const path = await c.keyToPath("Some Key");
+        assert.deepEqual(path, ["%53ome%20%4bey"]);
+        assert.equal(await c.pathToKey(path), "Some Key");
+    });
+
+    it("hashes long names, and finds them through the manifest", async () => {
+        const store = new MemoryStore();
+        const c = await create({maxFilenameLength: 16}, store);
+        const key = "a key that is much too long";
+        const path = await c.keyToPath(key, true);
+        assert.equal(path.length, 1);
+        assert.match(path[0], /^%h[0-9a-f]+$/);
+        assert.ok("%m" in store.files);
+
+        // A fresh codec reads the manifest
+        const c2 = await create({maxFilenameLength: 16}, store);
+        assert.equal(await c2.pathToKey(path), key);
+
+        // Removing the key prunes the manifest
+        await c.removed(key);
+        const c3 = await create({maxFilenameLength: 16}, store);
+        assert.equal(await c3.pathToKey(path), null);
+    });
+
+    it("recovers hashed keys from the files themselves", async () => {
+        const store = new MemoryStore();
+        const c = await create({maxFilenameLength: 16}, store);
+        const key = "another key that is too long";
+        await put(c, key, 42);
+        delete store.files["%m"];
+
+        const c2 = await create({maxFilenameLength: 16}, store);
+        assert.equal(await c2.pathToKey(await c2.keyToPath(key)), key);
+    });
+
+    it("defaults to 255-character names", async () => {
+        const c = await create({});
+        const long = "k".repeat(255);
+        assert.deepEqual(await c.keyToPath(long), [long]);
+        assert.match((await c.keyToPath(long + "k"))[0], /^%h/);
+    });
+
+    it("splits keys at the separator into directories", async () => {
+        const c = await create({keySeparator: "/"});
+        const path = await c.keyToPath("project/123/frame");
+        assert.deepEqual(path, ["%sproject", "%s123", "frame"]);
+        assert.equal(await c.pathToKey(path), "project/123/frame");
+
+        assert.deepEqual(await c.keyToPath("a//b"), ["%sa", "%s%e", "b"]);
+        assert.equal(await c.pathToKey(["%sa", "%s%e", "b"]), "a//b");
+        assert.deepEqual(await c.keyToPath("a/"), ["%sa", "%e"]);
+
+        // Files in directories that aren't key directories aren't keys
+        assert.equal(await c.pathToKey(["other", "b"]), null);
+    });
+
+    it("maps prefixes to directories and names", async () => {
+        const c = await create({keySeparator: "/"});
+        assert.deepEqual(await c.prefixToDirs("project/12"), ["%sproject"]);
+        assert.deepEqual(
+            await c.prefixToDirs("project/123/"), ["%sproject", "%s123"]
+        );
+        assert.deepEqual(
+            c.prefixToNames("project/12"), ["12", "%h", "%s12", "%s%h"]
+        );
+        assert.equal(c.prefixToNames("project/"), null);
+    });
+
+    it("tells its own files from items", async () => {
+        const c = await create({keySeparator: "/"});
+        assert.equal(c.isKeyPath(["%m"]), false);
+        assert.equal(c.isKeyPath(["%k"]), false);
+        assert.equal(c.isKeyPath(["%l"]), false);
+        assert.equal(c.isKeyPath(["%sa", "%m"]), true);
+        assert.equal(c.isKeyPath(["key"]), true);
+        assert.equal(c.isDirName("%sa"), true);
+        assert.equal(c.isDirName("a"), false);
+    });
+});
+
+describe("Codec encryption", () => {
+    it("round-trips values", async () => {
+        const c = await create({encryption: passphrase});
+        const data = await c.encode({a: [1, 2]}, "key");
+        assert.ok(!new TextDecoder().decode(data).includes("key"));
+        assert.deepEqual(await c.decode(data), {a: [1, 2]});
+    });
+
+    it("encrypts key names when asked", async () => {
+        const c = await create({
+            encryption: {...passphrase, encryptKeys: true}, keySeparator: "/"
+        });
+        const path = await c.keyToPath("secret/name");
+        assert.equal(path.length, 2);
+        assert.match(path[0], /^%s%x/);
+        assert.match(path[1], /^%x/);
+        assert.equal(await c.pathToKey(path), "secret/name");
+        assert.equal(c.prefixToNames("secret/na"), null);
+    });
+
+    it("rejects the wrong passphrase when opened", async () => {
+        const store = new MemoryStore();
+        await (await create({encryption: passphrase}, store)).checkKey();
+        assert.ok("%k" in store.files);
+
+        await (await create({encryption: passphrase}, store)).checkKey();
+        const wrong = await create({
+            encryption: {...passphrase, passphrase: "wrong"}
+        }, store);
+        await assert.rejects(wrong.checkKey(), errors.EncryptionKeyError);
+    });
+
+    it("derives keys from a non-extractable HKDF key", async () => {
+        const hkdf = await crypto.subtle.importKey(
+            "raw", new Uint8Array(32), "HKDF", false, ["deriveKey"]
+        );
+        const c = await create({
+            encryption: {key: hkdf, encryptKeys: true}
+        });
+        const path = await c.keyToPath("name");
+        assert.equal(await c.pathToKey(path), "name");
+        assert.deepEqual(await c.decode(await c.encode(1, "name")), 1);
+    });
+
+    it("explains why a non-extractable AES-GCM key won't do", async () => {
+        const aes = await crypto.subtle.generateKey(
+            {name: "AES-GCM", length: 256}, false, ["encrypt", "decrypt"]
+        );
+        await assert.rejects(
+            create({encryption: {key: aes}}), /must be extractable/
+        );
+    });
+});
+
+describe("Codec migrate", () => {
+    for (const encrypted of [false, true]) {
+        it(`moves flat keys into directories${encrypted ? ", encrypted" : ""}`,
+            async () => {
+            const store = new MemoryStore();
+            const nlfOpts: Partial<nlfOptions.NonlocalforageOptions> = {
+                maxFilenameLength: 40
+            };
+            if (encrypted)
+                nlfOpts.encryption = {...passphrase, encryptKeys: true};
+            const keys = ["a/b/c", "plain", "x/" + "y".repeat(50)];
+
+            const flat = await create(nlfOpts, store);
+            for (const key of keys)
+                await put(flat, key, `${key}!`);
+
+            const nested = await create({...nlfOpts, keySeparator: "/"}, store);
+            await nested.migrate();
+            for (const key of keys) {
+                assert.equal(await get(nested, key), `${key}!`);
+                const path = await nested.keyToPath(key);
+                assert.equal(await nested.pathToKey(path), key);
+            }
+            const files = Object.keys(store.files);
+            assert.ok(files.indexOf("%l") >= 0);
+
+            // Only the key without the separator is left at the top
+            const top = (await store.list()).filter(x => nested.isKeyPath([x]));
+            assert.equal(top.length, 1);
+
+            // It's only done once
+            await nested.migrate();
+            assert.deepEqual(Object.keys(store.files), files);
+        });
+    }
+
+    it("keeps a key that's already in its directory", async () => {
+        const store = new MemoryStore();
+        const flat = await create({}, store);
+        const nested = await create({keySeparator: "/"}, store);
+        await put(flat, "a/b", "old");
+        // As written by a version that didn't record the separator
+        await store.write(
+            await nested.keyToPath("a/b"), await nested.encode("new", "a/b")
+        );
+        await nested.migrate();
+        assert.equal(await get(nested, "a/b"), "new");
+        assert.equal(await get(flat, "a/b"), null);
+    });
+
+    it("refuses a store written with another separator", async () => {
+        const store = new MemoryStore();
+        const nested = await create({keySeparator: "/"}, store);
+        await nested.migrate();
+        await put(nested, "a/b", 1);
+
+        for (const keySeparator of [":", void 0]) {
+            const other = await create({keySeparator}, store);
+            await assert.rejects(other.migrate(), errors.LayoutError);
+        }
+        const again = await create({keySeparator: "/"}, store);
+        await again.migrate();
+        assert.equal(await get(again, "a/b"), 1);
+    });
+
+    it("records the separator when nested keys are written", async () => {
+        const store = new MemoryStore();
+        const nested = await create({keySeparator: "/"}, store);
+        await nested.migrate();
+        nested.clear();
+        store.files = Object.create(null);
+        await put(nested, "plain", 1);
+        assert.ok(!("%l" in store.files));
+        await put(nested, "a/b", 2);
+        await assert.rejects(
+            (await create({}, store)).migrate(), errors.LayoutError
+        );
+    });
+});
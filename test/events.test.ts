@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as events from "../src/events";
+
+describe("Emitter", () => {
+    it("forwards events until told to stop", () => {
+        const from = new events.Emitter();
+        const to = new events.Emitter();
+        const seen: string[] = [];
+        to.addEventListener("conflict", ev => seen.push(ev.detail.key));
+
+        const unforward = from.forward(to);
+        from.emit("conflict", {key: "a"});
+        unforward();
+        from.emit("conflict", {key: "b"});
+        assert.deepEqual(seen, ["a"]);
+
+        // Stopping again does nothing
+        unforward();
+    });
+
+    it("forwards only the given types", () => {
+        const from = new events.Emitter();
+        const to = new events.Emitter();
+        const seen: string[] = [];
+        to.addEventListener("upload-start", ev => seen.push(ev.type));
+        to.addEventListener("conflict", ev => seen.push(ev.type));
+
+        from.forward(to, ["conflict"]);
+        from.emit("upload-start", {key: "a"});
+        from.emit("conflict", {key: "a"});
+        assert.deepEqual(seen, ["conflict"]);
+    });
+});
+
+describe("instanceEmitter", () => {
+    it("gives each instance one emitter, before it's set up", () => {
+        const lf = {};
+        const emitter = events.instanceEmitter(lf);
+        assert.equal(events.instanceEmitter(lf), emitter);
+        assert.notEqual(events.instanceEmitter({}), emitter);
+    });
+});
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as errors from "../src/errors";
+import * as nlfOptions from "../src/nlf-options";
+import * as retry from "../src/retry";
+
+const fast = <nlfOptions.NonlocalforageOptions> {
+    retries: 3, retryDelay: 1, retryMaxDelay: 2
+};
+
+/**
+ * A function that fails with these errors in turn, then succeeds, counting
+ * its calls.
+ */
+function failing(errs: any[]) {
+    const fn = async () => {
+        fn.calls++;
+        if (fn.calls <= errs.length)
+            throw errs[fn.calls - 1];
+        return "ok";
+    };
+    fn.calls = 0;
+    return fn;
+}
+
+describe("retry", () => {
+    it("retries transient failures", async () => {
+        const fn = failing([
+            new errors.NetworkError("down"),
+            new errors.ServerError("500", null, 500),
+            new errors.RateLimitError("slow", null, 429, 1)
+        ]);
+        assert.equal(await retry.retry(fast, fn), "ok");
+        assert.equal(fn.calls, 4);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+        const err = new errors.NetworkError("down");
+        const fn = failing([err, err, err, err, err]);
+        await assert.rejects(retry.retry(fast, fn), errors.NetworkError);
+        assert.equal(fn.calls, 4);
+
+        const once = failing([err]);
+        await assert.rejects(
+            retry.retry({...fast, retries: 0}, once), errors.NetworkError
+        );
+        assert.equal(once.calls, 1);
+    });
+
+    it("doesn't retry other failures", async () => {
+        for (const err of [
+            new errors.NotFoundError("gone"), new errors.AuthError("no"),
+            new errors.ConflictError("changed"), new Error("bug")
+        ]) {
+            const fn = failing([err]);
+            await assert.rejects(retry.retry(fast, fn), err);
+            assert.equal(fn.calls, 1);
+        }
+    });
+
+    it("stops waiting when aborted", async () => {
+        const ac = new AbortController();
+        const fn = failing([new errors.NetworkError("down")]);
+        const p = retry.retry({...fast, retryDelay: 60000}, fn, ac.signal);
+        ac.abort();
+        await assert.rejects(p, {name: "AbortError"});
+        assert.equal(fn.calls, 1);
+    });
+});
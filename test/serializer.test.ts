@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as errors from "../src/errors";
+import * as ser from "../src/serializer";
+
+/**
+ * Serialize and deserialize this value.
+ */
+async function roundTrip(value: any, opts?: ser.SerializeOptions) {
+    return await ser.deserialize(await ser.serialize(value, opts));
+}
+
+/**
+ * Get the descriptor of this serialized data.
+ */
+function descriptor(data: Uint8Array) {
+    const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const descSize = dv.getUint32(8, true);
+    return JSON.parse(
+        new TextDecoder().decode(data.subarray(48, 48 + descSize))
+    );
+}
+
+describe("serialize", () => {
+    it("stores plain values as JSON", async () => {
+        const value = {a: [1, "two", null, true], b: {c: 3.5}};
+        const data = await ser.serialize(value);
+        assert.equal(descriptor(data).type, "JSON");
+        assert.deepEqual(await ser.deserialize(data), value);
+    });
+
+    it("round-trips values that JSON can't represent", async () => {
+        const BigInt = (<any> globalThis).BigInt;
+        const value = {
+            u: void 0, nan: NaN, inf: -Infinity, negZero: -0,
+            big: BigInt("12345678901234567890"),
+            date: new Date(1234567890),
+            re: /a+b/gi,
+            map: new Map<any, any>([["x", 1], [2, {y: "z"}]]),
+            set: new Set([1, "a"]),
+            dollar: {$: "Date", v: 0}
+        };
+        const data = await ser.serialize(value);
+        assert.equal(descriptor(data).type, "Structured");
+        const out = await ser.deserialize(data);
+        assert.ok("u" in out);
+        assert.equal(out.u, void 0);
+        assert.ok(Number.isNaN(out.nan));
+        assert.equal(out.inf, -Infinity);
+        assert.ok(Object.is(out.negZero, -0));
+        assert.equal(out.big, value.big);
+        assert.deepEqual(out.date, value.date);
+        assert.deepEqual(out.re, value.re);
+        assert.deepEqual(out.map, value.map);
+        assert.deepEqual(out.set, value.set);
+        assert.deepEqual(out.dollar, value.dollar);
+    });
+
+    it("round-trips binary data, at the top level or nested", async () => {
+        const f32 = new Float32Array([1.5, -2, 3]);
+        assert.deepEqual(await roundTrip(f32), f32);
+
+        const ab = new Uint8Array([1, 2, 3]).buffer;
+        const abOut = await roundTrip(ab);
+        assert.ok(abOut instanceof ArrayBuffer);
+        assert.deepEqual(new Uint8Array(abOut), new Uint8Array(ab));
+
+        // An unaligned view of a larger buffer
+        const u16 = new Uint16Array(new Uint8Array(9).fill(7).buffer, 2, 3);
+        const out = await roundTrip({list: [u16], dv: new DataView(ab)});
+        assert.ok(out.list[0] instanceof Uint16Array);
+        assert.deepEqual(Array.from(out.list[0]), Array.from(u16));
+        assert.ok(out.dv instanceof DataView);
+        assert.equal(out.dv.getUint8(2), 3);
+    });
+
+    it("round-trips Blobs", async () => {
+        const blob = new Blob(["hello"], {type: "text/plain"});
+        const out = await roundTrip({blob});
+        assert.ok(out.blob instanceof Blob);
+        assert.equal(out.blob.type, "text/plain");
+        assert.equal(await out.blob.text(), "hello");
+    });
+
+    it("keeps repeated objects the same, including in cycles", async () => {
+        const shared = {n: 1};
+        const value: any = {a: shared, b: [shared, shared]};
+        value.self = value;
+        const map = new Map<string, any>();
+        map.set("map", map);
+        value.map = map;
+        const set = new Set<any>();
+        set.add(set);
+        value.set = set;
+
+        const out = await roundTrip(value);
+        assert.equal(out.self, out);
+        assert.equal(out.a, out.b[0]);
+        assert.equal(out.a, out.b[1]);
+        assert.deepEqual(out.a, shared);
+        assert.equal(out.map.get("map"), out.map);
+        assert.ok(out.set.has(out.set));
+    });
+
+    it("compresses large data, but not small data", async () => {
+        const value = "abc".repeat(10000);
+        const opts: ser.SerializeOptions = {compression: "gzip"};
+        const data = await ser.serialize(value, opts);
+        assert.equal(descriptor(data).type, "Compressed");
+        assert.ok(data.length < value.length);
+        assert.equal(await ser.deserialize(data), value);
+
+        const small = await ser.serialize("abc", opts);
+        assert.equal(descriptor(small).type, "JSON");
+    });
+
+    it("records the key", async () => {
+        const data = await ser.serialize([1, 2], {key: "the/key"});
+        assert.equal(await ser.deserializeKey(data), "the/key");
+        assert.equal(await ser.deserializeKey(await ser.serialize(1)), null);
+
+        const compressed = await ser.serialize("x".repeat(5000), {
+            key: "k", compression: "gzip"
+        });
+        assert.equal(await ser.deserializeKey(compressed), "k");
+    });
+});
+
+describe("deserialize", () => {
+    it("rejects damaged data", async () => {
+        const data = await ser.serialize({a: 1});
+        data[data.length - 2] ^= 1;
+        await assert.rejects(ser.deserialize(data), errors.CorruptDataError);
+    });
+
+    it("rejects truncated data", async () => {
+        const data = await ser.serialize({a: "some text"});
+        await assert.rejects(
+            ser.deserialize(data.subarray(0, data.length - 1)),
+            errors.CorruptDataError
+        );
+        await assert.rejects(
+            ser.deserialize(data.subarray(0, 20)), errors.CorruptDataError
+        );
+    });
+
+    it("reads the legacy format", async () => {
+        const desc = new TextEncoder().encode(JSON.stringify({
+            type: "TypedArray", taType: "Uint8Array"
+        }));
+        const data = new Uint8Array(4 + desc.length + 3);
+        new Uint32Array(data.buffer, 0, 1)[0] = desc.length;
+        data.set(desc, 4);
+        data.set([7, 8, 9], 4 + desc.length);
+        assert.deepEqual(
+            await ser.deserialize(data), new Uint8Array([7, 8, 9])
+        );
+    });
+});
+
+describe("safeify", () => {
+    it("round-trips through unsafeify", () => {
+        const keys = [
+            "plain-key_1", "with space", "a.b.c", "100%", "%41",
+            "slash/and\\back", "été", "中文", ""
+        ];
+        for (const key of keys) {
+            const name = ser.safeify(key);
+            assert.match(name, /^[a-z0-9_%-]*$/);
+            assert.equal(ser.unsafeify(name), key);
+        }
+    });
+
+    it("escapes everything but lowercase letters, digits, _ and -", () => {
+        assert.equal(ser.safeify("aZ.%"), "a%5a%2e%25");
+        assert.equal(ser.safeify("€"), "%u20ac");
+    });
+
+    it("never generates the codec's own names", () => {
+        const reserved = /^%([xhsmkl]|e$)/;
+        for (let cc = 0; cc < 0x10000; cc++) {
+            const name = ser.safeify(String.fromCharCode(cc));
+            assert.ok(!reserved.test(name), name);
+        }
+    });
+});
+
+describe("approxSize", () => {
+    it("counts each object once", () => {
+        const value: any = {a: "xyz"};
+        value.self = value;
+        const size = ser.approxSize(value);
+        assert.ok(size > 0 && size < 100);
+    });
+});
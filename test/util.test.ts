@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as util from "../src/util";
+
+/**
+ * A promise that can be resolved from outside.
+ */
+function deferred() {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(res => resolve = res);
+    return {promise, resolve};
+}
+
+/**
+ * Wait for everything already queued to run.
+ */
+function tick() {
+    return new Promise(res => setTimeout(res, 0));
+}
+
+describe("RequestQueue", () => {
+    it("runs up to its concurrency at once", async () => {
+        const q = new util.RequestQueue(2);
+        const gates = [deferred(), deferred(), deferred()];
+        const started: number[] = [];
+        const done = gates.map((gate, i) => q.run(async () => {
+            started.push(i);
+            await gate.promise;
+            return i;
+        }, `k${i}`));
+
+        await tick();
+        assert.deepEqual(started, [0, 1]);
+        gates[1].resolve();
+        assert.equal(await done[1], 1);
+        await tick();
+        assert.deepEqual(started, [0, 1, 2]);
+        gates[0].resolve();
+        gates[2].resolve();
+        assert.deepEqual(await Promise.all(done), [0, 1, 2]);
+    });
+
+    it("runs requests for the same key in order", async () => {
+        const q = new util.RequestQueue(4);
+        const first = deferred();
+        const order: string[] = [];
+        const done = [
+            q.run(async () => { await first.promise; order.push("a1"); }, "a"),
+            q.run(async () => { order.push("a2"); }, "a"),
+            q.run(async () => { order.push("b"); }, "b")
+        ];
+
+        await tick();
+        assert.deepEqual(order, ["b"]);
+        first.resolve();
+        await Promise.all(done);
+        assert.deepEqual(order, ["b", "a1", "a2"]);
+    });
+
+    it("runs requests with no key alone", async () => {
+        const q = new util.RequestQueue(4);
+        const first = deferred();
+        const all = deferred();
+        const order: string[] = [];
+        const done = [
+            q.run(async () => { await first.promise; order.push("a"); }, "a"),
+            q.run(async () => { await all.promise; order.push("all"); }),
+            q.run(async () => { order.push("b"); }, "b")
+        ];
+
+        await tick();
+        assert.deepEqual(order, []);
+        first.resolve();
+        await done[0];
+        await tick();
+        assert.deepEqual(order, ["a"]);
+        all.resolve();
+        await Promise.all(done);
+        assert.deepEqual(order, ["a", "all", "b"]);
+    });
+
+    it("passes on failures, and carries on", async () => {
+        const q = new util.RequestQueue(1);
+        const failed = q.run(async () => { throw new Error("failed"); }, "a");
+        const next = q.run(async () => 2, "a");
+        await assert.rejects(failed, /failed/);
+        assert.equal(await next, 2);
+    });
+
+    it("drops requests aborted before they start", async () => {
+        const q = new util.RequestQueue(1);
+        const first = deferred();
+        const ac = new AbortController();
+        let ran = false;
+        const running = q.run(() => first.promise, "a");
+        const aborted = q.run(async () => { ran = true; }, "b", ac.signal);
+        const after = q.run(async () => 3, "c");
+
+        ac.abort();
+        await assert.rejects(aborted, {name: "AbortError"});
+        first.resolve();
+        await running;
+        assert.equal(await after, 3);
+        assert.equal(ran, false);
+    });
+
+    it("doesn't start requests that are already aborted", async () => {
+        const q = new util.RequestQueue(1);
+        let ran = false;
+        const aborted = q.run(
+            async () => { ran = true; }, "a", AbortSignal.abort()
+        );
+        await assert.rejects(aborted, {name: "AbortError"});
+        await tick();
+        assert.equal(ran, false);
+    });
+
+    it("stops listening to the signal once the request starts", async () => {
+        const q = new util.RequestQueue(1);
+        const ac = new AbortController();
+        const listeners = new Set<any>();
+        const signal = ac.signal;
+        signal.addEventListener = (type: string, fn: any) => {
+            listeners.add(fn);
+        };
+        signal.removeEventListener = (type: string, fn: any) => {
+            listeners.delete(fn);
+        };
+
+        const gate = deferred();
+        let finished = false;
+        const running = q.run(async () => {
+            await gate.promise;
+            finished = true;
+        }, "a", signal);
+        await tick();
+        assert.equal(listeners.size, 1);
+
+        // Aborting a started request only rejects its promise
+        listeners.forEach(fn => fn());
+        await assert.rejects(running, {name: "AbortError"});
+        gate.resolve();
+        await tick();
+        assert.equal(finished, true);
+        assert.equal(listeners.size, 0);
+    });
+});
+
+describe("bulk", () => {
+    it("collects results and errors in order", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const results = await util.bulk(["a", "b", "c", "d"], 2, async key => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await tick();
+            running--;
+            if (key === "c")
+                throw new Error("no c");
+            return key.toUpperCase();
+        });
+        assert.equal(maxRunning, 2);
+        assert.deepEqual(results.map(x => x.value), ["A", "B", void 0, "D"]);
+        assert.match(results[2].error.message, /no c/);
+    });
+});
+
+describe("hasPrefix", () => {
+    it("matches any of the prefixes, or anything without them", () => {
+        assert.equal(util.hasPrefix("abc", ["x", "ab"]), true);
+        assert.equal(util.hasPrefix("abc", ["b"]), false);
+        assert.equal(util.hasPrefix("abc", null), true);
+    });
+});
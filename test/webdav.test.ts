@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: ISC
+/*
+ * Copyright (c) 2024 Yahweasel
+ *
+ * Permission to use, copy, modify, and/or distribute this software for any
+ * purpose with or without fee is hereby granted.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+ * WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+ * MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR ANY
+ * SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+ * WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN ACTION
+ * OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF OR IN
+ * CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+ */
+
+import * as assert from "node:assert/strict";
+import {describe, it} from "node:test";
+
+import * as webdav from "../src/webdav";
+
+/**
+ * A WebDAV client over files in memory. Responses give ETags in the form
+ * returned by headerETag, and stat gives them in the form returned by
+ * statETag, as servers and the client don't agree on quoting.
+ */
+class MemoryClient {
+    files: Record<string, {data: Uint8Array, version: number}> =
+        Object.create(null);
+    dirs: Record<string, boolean> = Object.create(null);
+    version = 0;
+
+    constructor(
+        public headerETag: (version: number) => string,
+        public statETag: (version: number) => string
+    ) {}
+
+    async exists(path: string) {
+        return !!(this.dirs[path] || this.files[path]);
+    }
+
+    async createDirectory(path: string) {
+        this.dirs[path] = true;
+    }
+
+    async getFileContents(path: string) {
+        const file = this._file(path);
+        return {
+            data: file.data.slice().buffer,
+            headers: {etag: this.headerETag(file.version)}
+        };
+    }
+
+    async putFileContents(path: string, data: ArrayBuffer) {
+        this._write(path, data);
+    }
+
+    async customRequest(path: string, opts: any) {
+        assert.equal(opts.method, "PUT");
+        const file = this.files[path];
+        const ifMatch = opts.headers["If-Match"];
+        if (ifMatch && (!file || ifMatch !== `"${file.version}"`))
+            throw {status: 412, message: "Precondition Failed"};
+        if (opts.headers["If-None-Match"] === "*" && file)
+            throw {status: 412, message: "Precondition Failed"};
+        const version = this._write(path, opts.data);
+        return {headers: {etag: this.headerETag(version)}};
+    }
+
+    async stat(path: string) {
+        const file = this._file(path);
+        return {
+            size: file.data.length,
+            lastmod: new Date(0).toUTCString(),
+            etag: this.statETag(file.version)
+        };
+    }
+
+    async getDirectoryContents(path: string) {
+        return Object.keys(this.files)
+            .filter(x => x.slice(0, path.length + 1) === `${path}/`)
+            .map(x => ({basename: x.slice(path.length + 1), type: "file"}));
+    }
+
+    async deleteFile(path: string) {
+        this._file(path);
+        delete this.files[path];
+    }
+
+    private _file(path: string) {
+        const file = this.files[path];
+        if (!file)
+            throw {status: 404, message: "Not Found"};
+        return file;
+    }
+
+    private _write(path: string, data: ArrayBuffer) {
+        const version = ++this.version;
+        this.files[path] = {data: new Uint8Array(data.slice(0)), version};
+        return version;
+    }
+}
+
+/**
+ * Open a WebDAV store over this client.
+ */
+async function open(client: MemoryClient) {
+    (<any> globalThis).WebDAV = {createClient: () => client};
+    const lf: any = Object.create(webdav.webDAVLocalForage);
+    await lf._initStorage({
+        name: "test", storeName: "store",
+        webDAV: {server: "https://example.com/dav"},
+        nonlocalforage: {onConflict: (key: string, local: any) => local}
+    });
+    return lf;
+}
+
+describe("WebDAV revisions", () => {
+    const forms: [string, (v: number) => string, (v: number) => string][] = [
+        ["quoted header, bare stat", v => `"${v}"`, v => `${v}`],
+        ["weak header, quoted stat", v => `W/"${v}"`, v => `"${v}"`]
+    ];
+    for (const [name, headerETag, statETag] of forms) {
+        it(`match between reads and stats (${name})`, async () => {
+            const client = new MemoryClient(headerETag, statETag);
+            const lf = await open(client);
+
+            await lf.setItem("k", 1);
+            const written = lf.knownRevision("k");
+            assert.ok(written);
+            assert.equal((await lf.getItemInfo("k")).revision, written);
+
+            // Changed elsewhere, then read
+            const path = Object.keys(client.files)[0];
+            await client.putFileContents(
+                path, client.files[path].data.slice().buffer
+            );
+            assert.notEqual(
+                (await lf.getItemInfo("k")).revision, written
+            );
+            assert.equal(await lf.getItem("k"), 1);
+            assert.equal(
+                (await lf.getItemInfo("k")).revision, lf.knownRevision("k")
+            );
+
+            // And the conditional write still succeeds
+            await lf.setItem("k", 2);
+            assert.equal(await lf.getItem("k"), 2);
+        });
+    }
+});